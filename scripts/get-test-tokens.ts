@@ -52,7 +52,7 @@ async function testOAuth() {
 
   // Handle OAuth callback
   app.get('/callback', async (req, res) => {
-    const { code, error } = req.query;
+    const { code, state, error } = req.query;
 
     if (error) {
       console.error('OAuth error:', error);
@@ -68,7 +68,7 @@ async function testOAuth() {
 
     try {
       // Exchange code for tokens
-      await auth.handleCallback(code);
+      await auth.handleCallback(code, String(state ?? ''));
       
       // Get user info to verify authentication
       const client = auth.getClient();
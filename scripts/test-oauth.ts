@@ -10,7 +10,9 @@ async function main() {
     type: 'oauth',
     clientId: process.env.LINEAR_CLIENT_ID!,
     clientSecret: process.env.LINEAR_CLIENT_SECRET!,
-    redirectUri: process.env.LINEAR_REDIRECT_URI!
+    redirectUri: process.env.LINEAR_REDIRECT_URI!,
+    // The code below was issued without a PKCE challenge
+    usePkce: false
   });
 
   // Use the auth code from the previous attempt
@@ -18,7 +20,8 @@ async function main() {
 
   try {
     // Exchange code for tokens
-    await auth.handleCallback(authCode);
+    const state = new URL(auth.getAuthorizationUrl()).searchParams.get('state')!;
+    await auth.handleCallback(authCode, state);
     
     // Get user info to verify authentication
     const client = auth.getClient();
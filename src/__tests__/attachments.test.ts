@@ -0,0 +1,123 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { LinearClient } from '@linear/sdk';
+import { LinearAuth } from '../auth';
+import { LinearGraphQLClient } from '../graphql/client';
+import {
+  AttachmentHandler,
+  parsePullRequestUrl,
+} from '../features/attachments/handlers/attachment.handler';
+
+const ISSUE_ID = '7a9c1e3f-5b7d-4f9a-8c2e-4a6c8e0b2d4f';
+
+describe('parsePullRequestUrl', () => {
+  it('should read GitHub pull request URLs', () => {
+    expect(parsePullRequestUrl('https://github.com/acme/shop/pull/12/files')).toEqual({
+      provider: 'github',
+      host: 'github.com',
+      owner: 'acme',
+      repo: 'shop',
+      number: 12,
+    });
+  });
+
+  it('should read GitLab merge request URLs with nested groups', () => {
+    const url = 'https://gitlab.acme.dev/acme/web/shop/-/merge_requests/7';
+
+    expect(parsePullRequestUrl(url)).toEqual({
+      provider: 'gitlab',
+      host: 'gitlab.acme.dev',
+      owner: 'acme/web',
+      repo: 'shop',
+      number: 7,
+    });
+  });
+
+  it('should not recognize other URLs', () => {
+    expect(parsePullRequestUrl('https://github.com/acme/shop/issues/12')).toBeUndefined();
+    expect(parsePullRequestUrl('not a url')).toBeUndefined();
+  });
+});
+
+describe('AttachmentHandler', () => {
+  let rawRequest: jest.Mock<(query: string, variables?: any) => Promise<{ data: unknown }>>;
+  let handler: AttachmentHandler;
+
+  const variablesOf = (operation: string) =>
+    rawRequest.mock.calls.find(([query]) => query.includes(operation))?.[1];
+
+  beforeEach(() => {
+    rawRequest = jest.fn(async (query: string, variables?: any) => {
+      if (query.includes('query GetIssueReferences')) {
+        const nodes = [{ id: ISSUE_ID, identifier: 'ENG-1', team: { id: 'team-1' } }];
+        return { data: { issues: { nodes } } };
+      }
+      if (query.includes('query GetAttachment(')) {
+        return { data: { attachment: { id: variables.id, title: 'Design doc' } } };
+      }
+      if (query.includes('mutation CreateAttachment')) {
+        const attachment = { id: 'a1', ...variables.input };
+        return { data: { attachmentCreate: { success: true, attachment } } };
+      }
+      if (query.includes('mutation UpdateAttachment')) {
+        const attachment = { id: variables.id, ...variables.input };
+        return { data: { attachmentUpdate: { success: true, attachment } } };
+      }
+      return { data: {} };
+    });
+
+    const auth = new LinearAuth();
+    jest.spyOn(auth, 'isAuthenticated').mockReturnValue(true);
+    jest.spyOn(auth, 'ensureValidToken').mockResolvedValue(undefined);
+    handler = new AttachmentHandler(
+      auth,
+      new LinearGraphQLClient({ client: { rawRequest } } as unknown as LinearClient)
+    );
+  });
+
+  it('should link a pull request with its repository and number', async () => {
+    await handler.handleLinkPullRequest({
+      issueId: 'ENG-1',
+      url: 'https://github.com/acme/shop/pull/12',
+    });
+
+    expect(variablesOf('mutation CreateAttachment')).toEqual({
+      input: {
+        issueId: ISSUE_ID,
+        url: 'https://github.com/acme/shop/pull/12',
+        title: 'acme/shop#12',
+        subtitle: 'GitHub pull request',
+        metadata: {
+          provider: 'github',
+          host: 'github.com',
+          owner: 'acme',
+          repo: 'shop',
+          number: 12,
+        },
+      },
+    });
+  });
+
+  it('should reject URLs that are not pull requests', async () => {
+    await expect(
+      handler.handleLinkPullRequest({ issueId: 'ENG-1', url: 'https://example.com/doc' })
+    ).rejects.toThrow(
+      'https://example.com/doc is not a GitHub pull request or GitLab merge request URL'
+    );
+    expect(variablesOf('mutation CreateAttachment')).toBeUndefined();
+  });
+
+  it('should keep the current title when updating other fields', async () => {
+    await handler.handleUpdateAttachment({ id: 'a1', subtitle: 'Approved' });
+
+    expect(variablesOf('mutation UpdateAttachment')).toEqual({
+      id: 'a1',
+      input: { title: 'Design doc', subtitle: 'Approved' },
+    });
+  });
+
+  it('should require something to update', async () => {
+    await expect(handler.handleUpdateAttachment({ id: 'a1' })).rejects.toThrow(
+      'Nothing to update: pass a title, subtitle, metadata or iconUrl'
+    );
+  });
+});
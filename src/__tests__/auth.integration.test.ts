@@ -72,7 +72,18 @@ const hasOAuthCredentials = process.env.LINEAR_CLIENT_ID &&
         throw new Error('LINEAR_AUTH_CODE environment variable is required');
       }
 
-      await auth.handleCallback(authCode);
+      // The code was issued for an earlier authorization request, so start a
+      // new one without PKCE to obtain a matching state
+      auth.initialize({
+        type: 'oauth',
+        clientId: process.env.LINEAR_CLIENT_ID!,
+        clientSecret: process.env.LINEAR_CLIENT_SECRET!,
+        redirectUri: process.env.LINEAR_REDIRECT_URI!,
+        usePkce: false
+      });
+      const state = new URL(auth.getAuthorizationUrl()).searchParams.get('state')!;
+
+      await auth.handleCallback(authCode, state);
       expect(auth.isAuthenticated()).toBe(true);
     });
 
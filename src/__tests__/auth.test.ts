@@ -1,6 +1,8 @@
 import { jest, describe, it, expect, beforeEach } from '@jest/globals';
 import { LinearAuth } from '../auth';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { MemoryTokenStore } from '../core/auth/token.store';
+import { createHash } from 'crypto';
 
 // Mock fetch
 const mockFetch = jest.fn() as jest.MockedFunction<typeof fetch>;
@@ -10,6 +12,12 @@ beforeEach(() => {
   mockFetch.mockClear();
 });
 
+/**
+ * Starts an authorization request and returns its state parameter.
+ */
+const startAuthorization = (auth: LinearAuth): string =>
+  new URL(auth.getAuthorizationUrl()).searchParams.get('state')!;
+
 describe('LinearAuth', () => {
   let auth: LinearAuth;
 
@@ -83,6 +91,92 @@ describe('LinearAuth', () => {
         auth.getAuthorizationUrl();
       }).toThrow();
     });
+
+    it('should request the default scopes as the application', () => {
+      auth.initialize({
+        type: 'oauth',
+        clientId: 'test-client-id',
+        clientSecret: 'test-client-secret',
+        redirectUri: 'http://localhost:3000/callback'
+      });
+
+      const url = new URL(auth.getAuthorizationUrl());
+      expect(url.searchParams.get('scope')).toBe('read,write,issues:create,offline_access');
+      expect(url.searchParams.get('actor')).toBe('application');
+    });
+
+    it('should request configured scopes as the user', () => {
+      auth.initialize({
+        type: 'oauth',
+        clientId: 'test-client-id',
+        clientSecret: 'test-client-secret',
+        redirectUri: 'http://localhost:3000/callback',
+        scopes: ['read', 'comments:create'],
+        actor: 'user'
+      });
+
+      const url = new URL(auth.getAuthorizationUrl());
+      expect(url.searchParams.get('scope')).toBe('read,comments:create');
+      expect(url.searchParams.has('actor')).toBe(false);
+    });
+
+    it('should reject unknown scopes and actors', () => {
+      const config = {
+        type: 'oauth' as const,
+        clientId: 'test-client-id',
+        clientSecret: 'test-client-secret',
+        redirectUri: 'http://localhost:3000/callback'
+      };
+
+      expect(() => auth.initialize({ ...config, scopes: ['read', 'delete' as any] }))
+        .toThrow('Unknown OAuth scopes: delete');
+      expect(() => auth.initialize({ ...config, actor: 'bot' as any }))
+        .toThrow('Unknown OAuth actor "bot"');
+    });
+  });
+
+  describe('hasScope', () => {
+    const grant = (scopes?: string[]) => {
+      auth.initialize({
+        type: 'oauth',
+        clientId: 'test-client-id',
+        clientSecret: 'test-client-secret',
+        redirectUri: 'http://localhost:3000/callback'
+      });
+      auth.setTokenData({
+        accessToken: 'test-access-token',
+        refreshToken: 'test-refresh-token',
+        expiresAt: Date.now() + 3600000,
+        scopes
+      });
+    };
+
+    it('should refuse write operations for a read-only token', () => {
+      grant(['read']);
+      expect(auth.hasScope('read')).toBe(true);
+      expect(auth.hasScope('write')).toBe(false);
+      expect(auth.hasScope('issues:create')).toBe(false);
+    });
+
+    it('should treat broader scopes as including narrower ones', () => {
+      grant(['read', 'admin']);
+      expect(auth.hasScope('write')).toBe(true);
+      expect(auth.hasScope('comments:create')).toBe(true);
+    });
+
+    it('should allow narrow scopes without implying write', () => {
+      grant(['read', 'issues:create']);
+      expect(auth.hasScope('issues:create')).toBe(true);
+      expect(auth.hasScope('write')).toBe(false);
+    });
+
+    it('should assume any scope when the grant is unknown', () => {
+      grant(undefined);
+      expect(auth.hasScope('write')).toBe(true);
+
+      auth.initialize({ type: 'pat', accessToken: 'test-access-token' });
+      expect(auth.hasScope('admin')).toBe(true);
+    });
   });
 
   describe('handleCallback', () => {
@@ -104,17 +198,122 @@ describe('LinearAuth', () => {
         { status: 200 }
       ));
 
-      await expect(auth.handleCallback('valid-code')).resolves.not.toThrow();
+      const state = startAuthorization(auth);
+      await expect(auth.handleCallback('valid-code', state)).resolves.not.toThrow();
       expect(auth.isAuthenticated()).toBe(true);
     });
 
+    it('should send the PKCE code verifier with the token exchange', async () => {
+      auth.initialize({
+        type: 'oauth',
+        clientId: 'test-client-id',
+        clientSecret: 'test-client-secret',
+        redirectUri: 'http://localhost:3000/callback'
+      });
+
+      const url = new URL(auth.getAuthorizationUrl());
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+
+      mockFetch.mockResolvedValueOnce(new Response(
+        JSON.stringify({
+          access_token: 'test-access-token',
+          refresh_token: 'test-refresh-token',
+          expires_in: 3600
+        }),
+        { status: 200 }
+      ));
+
+      await auth.handleCallback('valid-code', url.searchParams.get('state')!);
+
+      const body = new URLSearchParams(String(mockFetch.mock.calls[0][1]?.body));
+      const challenge = createHash('sha256')
+        .update(body.get('code_verifier')!)
+        .digest('base64url');
+      expect(challenge).toBe(url.searchParams.get('code_challenge'));
+    });
+
+    it('should omit PKCE parameters when disabled', async () => {
+      auth.initialize({
+        type: 'oauth',
+        clientId: 'test-client-id',
+        clientSecret: 'test-client-secret',
+        redirectUri: 'http://localhost:3000/callback',
+        usePkce: false
+      });
+
+      const url = new URL(auth.getAuthorizationUrl());
+      expect(url.searchParams.has('code_challenge')).toBe(false);
+    });
+
+    it('should reject a callback with a mismatched state', async () => {
+      auth.initialize({
+        type: 'oauth',
+        clientId: 'test-client-id',
+        clientSecret: 'test-client-secret',
+        redirectUri: 'http://localhost:3000/callback'
+      });
+      startAuthorization(auth);
+
+      await expect(auth.handleCallback('valid-code', 'forged-state')).rejects.toThrow(
+        new McpError(
+          ErrorCode.InvalidRequest,
+          'OAuth state mismatch. Start a new authorization with linear_auth.'
+        )
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should accept each state only once', async () => {
+      auth.initialize({
+        type: 'oauth',
+        clientId: 'test-client-id',
+        clientSecret: 'test-client-secret',
+        redirectUri: 'http://localhost:3000/callback'
+      });
+      const state = startAuthorization(auth);
+
+      mockFetch.mockResolvedValueOnce(new Response(
+        JSON.stringify({
+          access_token: 'test-access-token',
+          refresh_token: 'test-refresh-token',
+          expires_in: 3600
+        }),
+        { status: 200 }
+      ));
+
+      await auth.handleCallback('valid-code', state);
+      await expect(auth.handleCallback('valid-code', state)).rejects.toThrow('OAuth state mismatch');
+    });
+
+    it('should reject an expired authorization request', async () => {
+      auth.initialize({
+        type: 'oauth',
+        clientId: 'test-client-id',
+        clientSecret: 'test-client-secret',
+        redirectUri: 'http://localhost:3000/callback'
+      });
+      const now = Date.now();
+      const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+      const state = startAuthorization(auth);
+
+      dateSpy.mockReturnValue(now + 11 * 60 * 1000);
+      try {
+        await expect(auth.handleCallback('valid-code', state)).rejects.toThrow(
+          'OAuth authorization request expired'
+        );
+      } finally {
+        dateSpy.mockRestore();
+      }
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
     it('should throw error when called with PAT config', async () => {
       auth.initialize({
         type: 'pat',
         accessToken: 'test-access-token'
       });
 
-      await expect(auth.handleCallback('valid-code')).rejects.toThrow();
+      await expect(auth.handleCallback('valid-code', 'state')).rejects.toThrow();
     });
 
     it('should throw error for invalid authorization code', async () => {
@@ -133,7 +332,8 @@ describe('LinearAuth', () => {
         { status: 400 }
       ));
 
-      await expect(auth.handleCallback('invalid-code')).rejects.toThrow();
+      const state = startAuthorization(auth);
+      await expect(auth.handleCallback('invalid-code', state)).rejects.toThrow();
     });
   });
 
@@ -248,4 +448,250 @@ describe('LinearAuth', () => {
       await expect(auth.refreshAccessToken()).rejects.toThrow();
     });
   });
+
+  describe('token store', () => {
+    const oauthConfig = {
+      type: 'oauth' as const,
+      clientId: 'test-client-id',
+      clientSecret: 'test-client-secret',
+      redirectUri: 'http://localhost:3000/callback'
+    };
+
+    it('should persist tokens after the code exchange', async () => {
+      const tokenStore = new MemoryTokenStore();
+      auth = new LinearAuth({ tokenStore, storeKey: 'workspace' });
+      auth.initialize(oauthConfig);
+
+      mockFetch.mockResolvedValueOnce(new Response(
+        JSON.stringify({
+          access_token: 'test-access-token',
+          refresh_token: 'test-refresh-token',
+          expires_in: 3600
+        }),
+        { status: 200 }
+      ));
+
+      await auth.handleCallback('valid-code', startAuthorization(auth));
+
+      const stored = await tokenStore.load('workspace');
+      expect(stored?.config).toEqual(oauthConfig);
+      expect(stored?.tokenData?.accessToken).toBe('test-access-token');
+      expect(stored?.pendingAuthorizations).toEqual([]);
+    });
+
+    it('should complete an authorization started before a restart', async () => {
+      const tokenStore = new MemoryTokenStore();
+      auth = new LinearAuth({ tokenStore });
+      auth.initialize(oauthConfig);
+      const state = startAuthorization(auth);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      const restarted = new LinearAuth({ tokenStore });
+      await expect(restarted.loadStoredTokens()).resolves.toBe(false);
+
+      mockFetch.mockResolvedValueOnce(new Response(
+        JSON.stringify({
+          access_token: 'test-access-token',
+          refresh_token: 'test-refresh-token',
+          expires_in: 3600
+        }),
+        { status: 200 }
+      ));
+
+      await restarted.handleCallback('valid-code', state);
+      expect(restarted.isAuthenticated()).toBe(true);
+    });
+
+    it('should not accept a state again after a failed exchange and a restart', async () => {
+      const tokenStore = new MemoryTokenStore();
+      auth = new LinearAuth({ tokenStore });
+      auth.initialize(oauthConfig);
+      const state = startAuthorization(auth);
+
+      mockFetch.mockResolvedValueOnce(new Response(
+        JSON.stringify({ error: 'invalid_grant' }),
+        { status: 400 }
+      ));
+      await expect(auth.handleCallback('invalid-code', state)).rejects.toThrow();
+
+      const restarted = new LinearAuth({ tokenStore });
+      await restarted.loadStoredTokens();
+      await expect(restarted.handleCallback('valid-code', state)).rejects.toThrow(
+        'OAuth state mismatch'
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should persist tokens after a refresh', async () => {
+      const tokenStore = new MemoryTokenStore();
+      auth = new LinearAuth({ tokenStore });
+      auth.initialize(oauthConfig);
+      auth.setTokenData({
+        accessToken: 'test-access-token',
+        refreshToken: 'test-refresh-token',
+        expiresAt: Date.now() - 1000
+      });
+
+      mockFetch.mockResolvedValueOnce(new Response(
+        JSON.stringify({
+          access_token: 'new-access-token',
+          refresh_token: 'new-refresh-token',
+          expires_in: 3600
+        }),
+        { status: 200 }
+      ));
+
+      await auth.refreshAccessToken();
+
+      const stored = await tokenStore.load('default');
+      expect(stored?.tokenData?.accessToken).toBe('new-access-token');
+    });
+
+    it('should restore stored tokens on startup', async () => {
+      const tokenStore = new MemoryTokenStore();
+      await tokenStore.save('default', {
+        config: oauthConfig,
+        tokenData: {
+          accessToken: 'stored-access-token',
+          refreshToken: 'stored-refresh-token',
+          expiresAt: Date.now() + 3600000
+        }
+      });
+
+      auth = new LinearAuth({ tokenStore });
+
+      await expect(auth.loadStoredTokens()).resolves.toBe(true);
+      expect(auth.isAuthenticated()).toBe(true);
+      expect(auth.needsTokenRefresh()).toBe(false);
+    });
+
+    it('should ignore tokens of a different OAuth application', async () => {
+      const tokenStore = new MemoryTokenStore();
+      await tokenStore.save('default', {
+        config: { ...oauthConfig, clientId: 'other-client-id' },
+        tokenData: {
+          accessToken: 'stored-access-token',
+          refreshToken: 'stored-refresh-token',
+          expiresAt: Date.now() + 3600000
+        }
+      });
+
+      auth = new LinearAuth({ tokenStore });
+      auth.initialize(oauthConfig);
+
+      await expect(auth.loadStoredTokens()).resolves.toBe(false);
+      expect(auth.isAuthenticated()).toBe(false);
+    });
+  });
+
+  describe('logout', () => {
+    const oauthConfig = {
+      type: 'oauth' as const,
+      clientId: 'test-client-id',
+      clientSecret: 'test-client-secret',
+      redirectUri: 'http://localhost:3000/callback'
+    };
+
+    it('should revoke the OAuth token and drop stored credentials', async () => {
+      const tokenStore = new MemoryTokenStore();
+      auth = new LinearAuth({ tokenStore });
+      auth.initialize(oauthConfig);
+      auth.setTokenData({
+        accessToken: 'test-access-token',
+        refreshToken: 'test-refresh-token',
+        expiresAt: Date.now() + 3600000
+      });
+      await tokenStore.save('default', {
+        config: oauthConfig,
+        tokenData: {
+          accessToken: 'test-access-token',
+          refreshToken: 'test-refresh-token',
+          expiresAt: Date.now() + 3600000
+        }
+      });
+      const listener = jest.fn();
+      auth.onClientChange(listener);
+
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 200 }));
+
+      await expect(auth.logout()).resolves.toEqual({ revoked: true });
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.linear.app/oauth/revoke',
+        expect.objectContaining({
+          method: 'POST',
+          headers: expect.objectContaining({ Authorization: 'Bearer test-access-token' })
+        })
+      );
+      expect(auth.isAuthenticated()).toBe(false);
+      expect(listener).toHaveBeenCalledWith(undefined);
+      await expect(tokenStore.load('default')).resolves.toBeUndefined();
+    });
+
+    it('should drop credentials even if the revocation fails', async () => {
+      auth.initialize(oauthConfig);
+      auth.setTokenData({
+        accessToken: 'test-access-token',
+        refreshToken: 'test-refresh-token',
+        expiresAt: Date.now() + 3600000
+      });
+
+      mockFetch.mockResolvedValueOnce(new Response('invalid token', { status: 400 }));
+
+      const result = await auth.logout();
+      expect(result.revoked).toBe(false);
+      expect(result.revokeError).toContain('invalid token');
+      expect(auth.isAuthenticated()).toBe(false);
+    });
+
+    it('should not call the revoke endpoint for a Personal Access Token', async () => {
+      auth.initialize({
+        type: 'pat',
+        accessToken: 'test-access-token'
+      });
+
+      await expect(auth.logout()).resolves.toEqual({ revoked: false });
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(auth.isAuthenticated()).toBe(false);
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should report no authentication', () => {
+      expect(auth.getStatus()).toEqual({ mode: 'none', authenticated: false });
+    });
+
+    it('should distinguish Personal Access Tokens from API keys', () => {
+      auth.initialize({ type: 'pat', accessToken: 'test-access-token' });
+      expect(auth.getStatus()).toEqual({ mode: 'pat', authenticated: true });
+
+      auth.initialize({ type: 'pat', accessToken: 'lin_api_test' });
+      expect(auth.getStatus()).toEqual({ mode: 'api_key', authenticated: true });
+    });
+
+    it('should report expiry and scopes of an OAuth token', async () => {
+      auth.initialize({
+        type: 'oauth',
+        clientId: 'test-client-id',
+        clientSecret: 'test-client-secret',
+        redirectUri: 'http://localhost:3000/callback'
+      });
+
+      mockFetch.mockResolvedValueOnce(new Response(
+        JSON.stringify({
+          access_token: 'test-access-token',
+          refresh_token: 'test-refresh-token',
+          expires_in: 3600,
+          scope: 'read write'
+        }),
+        { status: 200 }
+      ));
+
+      await auth.handleCallback('valid-code', startAuthorization(auth));
+
+      const status = auth.getStatus();
+      expect(status.mode).toBe('oauth');
+      expect(status.scopes).toEqual(['read', 'write']);
+      expect(Date.parse(status.expiresAt!)).toBeGreaterThan(Date.now());
+    });
+  });
 });
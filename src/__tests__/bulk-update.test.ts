@@ -0,0 +1,248 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { LinearClient } from '@linear/sdk';
+import { LinearAuth } from '../auth';
+import { LinearGraphQLClient } from '../graphql/client';
+import { IssueHandler } from '../features/issues/handlers/issue.handler';
+
+const uuid = (index: number) => `00000000-0000-4000-8000-${String(index).padStart(12, '0')}`;
+
+const invalidInput = (message: string) =>
+  Object.assign(new Error(message), {
+    response: { errors: [{ message, extensions: { type: 'invalid input' } }], status: 400 },
+  });
+
+describe('Bulk issue updates', () => {
+  const teams = {
+    ENG: { id: 'team-1', states: ['Todo', 'In Review'] },
+    OPS: { id: 'team-2', states: ['Todo'] },
+  };
+  let rawRequest: jest.Mock<(query: string, variables?: any) => Promise<{ data: unknown }>>;
+  let client: LinearGraphQLClient;
+  let handler: IssueHandler;
+  /** Issues whose update is rejected, failing the batches they're part of */
+  let archived: Set<string>;
+
+  const batchUpdates = () =>
+    rawRequest.mock.calls.filter(([query]) => query.includes('mutation UpdateIssues'));
+
+  beforeEach(() => {
+    archived = new Set();
+    rawRequest = jest.fn(async (query: string, variables?: any) => {
+      if (query.includes('query GetIssueReferences')) {
+        const nodes = variables.filter.or
+          .filter((filter: any) => filter.team?.key.eq in teams && filter.number.eq < 100)
+          .map((filter: any) => ({
+            id: uuid(filter.number.eq),
+            identifier: `${filter.team.key.eq}-${filter.number.eq}`,
+            team: { id: teams[filter.team.key.eq as keyof typeof teams].id },
+          }));
+        return { data: { issues: { nodes } } };
+      }
+      if (query.includes('query GetTeams')) {
+        const nodes = Object.entries(teams).map(([key, { id, states }]) => ({
+          id,
+          key,
+          name: key,
+          states: {
+            nodes: states.map((name) => ({ id: `${key}-${name}`, name, type: 'started', color: '' })),
+          },
+          labels: { nodes: [] },
+        }));
+        return { data: { teams: { nodes, pageInfo: { hasNextPage: false, endCursor: null } } } };
+      }
+
+      const ids: string[] = variables.ids;
+      const rejected = ids.find((id) => archived.has(id));
+      if (rejected) {
+        throw invalidInput(`Issue ${rejected} is archived`);
+      }
+
+      const issues = ids.map((id) => ({ id, identifier: `ENG-${id.slice(-3)}`, title: id, url: '' }));
+      return { data: { issueBatchUpdate: { success: true, issues, lastSyncId: 1 } } };
+    });
+    client = new LinearGraphQLClient({ client: { rawRequest } } as unknown as LinearClient);
+
+    const auth = new LinearAuth();
+    jest.spyOn(auth, 'isAuthenticated').mockReturnValue(true);
+    jest.spyOn(auth, 'ensureValidToken').mockResolvedValue(undefined);
+    handler = new IssueHandler(auth, client);
+  });
+
+  it('should update issues in batches of 50', async () => {
+    const ids = Array.from({ length: 120 }, (_, index) => uuid(index));
+
+    const results = await client.updateIssues(ids, { priority: 1 });
+
+    expect(batchUpdates().map(([, variables]) => variables.ids.length)).toEqual([50, 50, 20]);
+    expect(results.map((result) => result.id)).toEqual(ids);
+    expect(results.every((result) => result.success)).toBe(true);
+  });
+
+  it('should report the issues of a failed batch one by one', async () => {
+    archived.add(uuid(2));
+
+    const response = await handler.handleBulkUpdateIssues({
+      issueIds: [uuid(1), uuid(2), uuid(3)],
+      update: { priority: 1 },
+    });
+
+    expect(response).not.toHaveProperty('isError');
+    expect(JSON.parse(response.content[0].text)).toEqual({
+      success: false,
+      updated: 2,
+      failed: 1,
+      results: [
+        expect.objectContaining({ id: uuid(1), success: true }),
+        {
+          id: uuid(2),
+          success: false,
+          error: `GraphQL operation failed: Issue ${uuid(2)} is archived`,
+        },
+        expect.objectContaining({ id: uuid(3), success: true }),
+      ],
+    });
+  });
+
+  it('should report unknown issues without stopping the others', async () => {
+    const response = await handler.handleBulkUpdateIssues({
+      issueIds: ['ENG-404', 'ENG-1', uuid(2)],
+      update: { priority: 1 },
+    });
+
+    expect(batchUpdates().map(([, variables]) => variables.ids)).toEqual([[uuid(1), uuid(2)]]);
+    expect(JSON.parse(response.content[0].text)).toEqual({
+      success: false,
+      updated: 2,
+      failed: 1,
+      results: [
+        { id: 'ENG-404', success: false, error: 'Issues not found: ENG-404' },
+        expect.objectContaining({ id: uuid(1), success: true }),
+        expect.objectContaining({ id: uuid(2), success: true }),
+      ],
+    });
+  });
+
+  it('should update the issues of other teams when a state is missing from one', async () => {
+    const response = await handler.handleBulkUpdateIssues({
+      issueIds: ['ENG-1', 'OPS-2'],
+      update: { stateId: 'In Review' },
+    });
+
+    expect(batchUpdates().map(([, variables]) => variables)).toEqual([
+      { ids: [uuid(1)], input: { stateId: 'ENG-In Review' } },
+    ]);
+    expect(JSON.parse(response.content[0].text)).toEqual({
+      success: false,
+      updated: 1,
+      failed: 1,
+      results: [
+        expect.objectContaining({ id: uuid(1), success: true }),
+        {
+          id: uuid(2),
+          success: false,
+          error: 'No state in team OPS "In Review" found.',
+        },
+      ],
+    });
+  });
+
+  it('should fail the tool call when no issue could be updated', async () => {
+    archived.add(uuid(1));
+
+    const response = await handler.handleBulkUpdateIssues({
+      issueIds: [uuid(1)],
+      update: { priority: 1 },
+    });
+
+    expect(response).toMatchObject({ isError: true });
+    expect(JSON.parse(response.content[0].text)).toMatchObject({ updated: 0, failed: 1 });
+  });
+});
+
+describe('Bulk issue deletion', () => {
+  let rawRequest: jest.Mock<(query: string, variables?: any) => Promise<{ data: unknown }>>;
+  let handler: IssueHandler;
+  /** Issues that can't be deleted, failing the batches they're part of */
+  let locked: Set<string>;
+
+  const deletions = () =>
+    rawRequest.mock.calls.filter(([query]) => /mutation (Delete|Archive)Issues/.test(query));
+
+  beforeEach(() => {
+    locked = new Set();
+    rawRequest = jest.fn(async (query: string, variables?: any) => {
+      if (query.includes('query GetIssueReferences')) {
+        const nodes = variables.filter.or
+          .filter((filter: any) => filter.team?.key.eq === 'ENG' && filter.number.eq < 100)
+          .map((filter: any) => ({
+            id: uuid(filter.number.eq),
+            identifier: `ENG-${filter.number.eq}`,
+            team: { id: 'team-1' },
+          }));
+        return { data: { issues: { nodes } } };
+      }
+
+      const ids = Object.values(variables) as string[];
+      const rejected = ids.find((id) => locked.has(id));
+      if (rejected) {
+        throw invalidInput(`Issue ${rejected} can't be deleted`);
+      }
+      return { data: Object.fromEntries(ids.map((_, index) => [`issue${index}`, { success: true }])) };
+    });
+
+    const auth = new LinearAuth();
+    jest.spyOn(auth, 'isAuthenticated').mockReturnValue(true);
+    jest.spyOn(auth, 'ensureValidToken').mockResolvedValue(undefined);
+    handler = new IssueHandler(
+      auth,
+      new LinearGraphQLClient({ client: { rawRequest } } as unknown as LinearClient)
+    );
+  });
+
+  it('should delete issues by id or identifier with one request per batch', async () => {
+    locked.add(uuid(3));
+
+    const response = await handler.handleDeleteIssues({
+      ids: ['ENG-1', uuid(2), 'ENG-3', 'ENG-404'],
+    });
+
+    expect(deletions()[0][0]).toContain('issueDelete');
+    expect(deletions()[0][1]).toEqual({ id0: uuid(1), id1: uuid(2), id2: uuid(3) });
+    expect(JSON.parse(response.content[0].text)).toEqual({
+      success: false,
+      deleted: 2,
+      failed: 2,
+      results: [
+        { issue: 'ENG-1', id: uuid(1), success: true },
+        { issue: uuid(2), id: uuid(2), success: true },
+        {
+          issue: 'ENG-3',
+          id: uuid(3),
+          success: false,
+          error: `GraphQL operation failed: Issue ${uuid(3)} can't be deleted`,
+        },
+        { issue: 'ENG-404', success: false, error: 'Issues not found: ENG-404' },
+      ],
+    });
+  });
+
+  it('should archive issues instead when asked to', async () => {
+    await handler.handleDeleteIssues({ ids: ['ENG-1'], archive: true });
+
+    expect(deletions()[0][0]).toContain('issueArchive');
+    expect(deletions()[0][0]).not.toContain('issueDelete');
+  });
+
+  it('should require confirmation for large batches', async () => {
+    const ids = Array.from({ length: 60 }, (_, index) => uuid(index));
+
+    await expect(handler.handleDeleteIssues({ ids })).rejects.toThrow(
+      '60 issues would be deleted. Pass confirm: true to proceed.'
+    );
+    expect(rawRequest).not.toHaveBeenCalled();
+
+    const response = await handler.handleDeleteIssues({ ids, confirm: true });
+    expect(deletions().map(([, variables]) => Object.keys(variables).length)).toEqual([50, 10]);
+    expect(JSON.parse(response.content[0].text)).toMatchObject({ deleted: 60, failed: 0 });
+  });
+});
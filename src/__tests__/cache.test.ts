@@ -0,0 +1,128 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { LinearClient } from '@linear/sdk';
+import { LinearAuth } from '../auth';
+import { LinearGraphQLClient } from '../graphql/client';
+import { CacheHandler } from '../features/cache/handlers/cache.handler';
+import { createCacheFactory, MemoryCacheStore } from '../core/cache/cache.store';
+
+describe('MemoryCacheStore', () => {
+  it('should expire entries after the time to live', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000);
+    const cache = new MemoryCacheStore(500);
+
+    await cache.set('teams', { nodes: [] });
+    expect(await cache.get('teams')).toEqual({ nodes: [] });
+
+    now.mockReturnValue(1_500);
+    expect(await cache.get('teams')).toBeUndefined();
+    now.mockRestore();
+  });
+
+  it('should clear entries by key prefix', async () => {
+    const cache = new MemoryCacheStore();
+    await cache.set('project:1', 1);
+    await cache.set('projects:{}', 2);
+    await cache.set('teams', 3);
+
+    await cache.clear('project:');
+    expect(await cache.get('project:1')).toBeUndefined();
+    expect(await cache.get('projects:{}')).toBe(2);
+
+    await cache.clear();
+    expect(await cache.get('teams')).toBeUndefined();
+  });
+
+  it('should be configured through the environment', () => {
+    expect(createCacheFactory({})()).toBeInstanceOf(MemoryCacheStore);
+    expect(createCacheFactory({ LINEAR_CACHE: 'none' })()).toBeUndefined();
+    expect(createCacheFactory({ LINEAR_CACHE_TTL: '0' })()).toBeUndefined();
+    expect(() => createCacheFactory({ LINEAR_CACHE_TTL: 'soon' })).toThrow(
+      'Invalid LINEAR_CACHE_TTL'
+    );
+    expect(() => createCacheFactory({ LINEAR_CACHE: 'redis' })).toThrow(
+      'Unsupported cache "redis"'
+    );
+  });
+});
+
+describe('LinearGraphQLClient cache', () => {
+  let rawRequest: jest.Mock<(query: string, variables?: unknown) => Promise<{ data: unknown }>>;
+  let client: LinearGraphQLClient;
+
+  const requestsFor = (operation: string) =>
+    rawRequest.mock.calls.filter(([query]) => query.includes(operation)).length;
+
+  beforeEach(() => {
+    rawRequest = jest.fn(async (query: string) => ({
+      data: query.includes('mutation') ? {} : { teams: { nodes: [] } },
+    }));
+    client = new LinearGraphQLClient(
+      { client: { rawRequest } } as unknown as LinearClient,
+      { cache: new MemoryCacheStore() }
+    );
+  });
+
+  it('should reuse cached reference data', async () => {
+    await client.getTeams();
+    await client.getTeams();
+    await client.getCurrentUser();
+    await client.getCurrentUser();
+    await client.getProject('project-1');
+    await client.getProject('project-2');
+
+    expect(requestsFor('query GetTeams')).toBe(1);
+    expect(requestsFor('query GetUser')).toBe(1);
+    expect(requestsFor('query GetProject')).toBe(2);
+  });
+
+  it('should invalidate the data changed by its own mutations', async () => {
+    await client.getTeams();
+    await client.getProject('project-1');
+    await client.searchProjects();
+
+    await client.updateIssue('issue-1', { title: 'Renamed' });
+    await client.getTeams();
+    await client.getProject('project-1');
+    await client.searchProjects();
+    expect(requestsFor('query GetTeams')).toBe(1);
+    expect(requestsFor('query GetProject')).toBe(2);
+    expect(requestsFor('query SearchProjects')).toBe(1);
+
+    await client.createIssueLabels([{ name: 'Bug', teamId: 'team-1' }]);
+    await client.getTeams();
+    expect(requestsFor('query GetTeams')).toBe(2);
+  });
+
+  it('should invalidate after failed mutations', async () => {
+    await client.getTeams();
+    rawRequest.mockRejectedValueOnce(new Error('Label already exists'));
+
+    await expect(
+      client.createIssueLabels([{ name: 'Bug', teamId: 'team-1' }])
+    ).rejects.toThrow('Label already exists');
+    await client.getTeams();
+
+    expect(requestsFor('query GetTeams')).toBe(2);
+  });
+
+  it('should be cleared through linear_refresh_cache', async () => {
+    const auth = new LinearAuth();
+    jest.spyOn(auth, 'isAuthenticated').mockReturnValue(true);
+    jest.spyOn(auth, 'ensureValidToken').mockResolvedValue(undefined);
+    const handler = new CacheHandler(auth, client);
+    await client.getTeams();
+    await client.getCurrentUser();
+
+    expect(await handler.handleRefreshCache({ data: ['teams'] })).toEqual({
+      content: [{ type: 'text', text: 'Cleared the cached teams' }],
+    });
+    await client.getTeams();
+    await client.getCurrentUser();
+    expect(requestsFor('query GetTeams')).toBe(2);
+    expect(requestsFor('query GetUser')).toBe(1);
+
+    await handler.handleRefreshCache({});
+    await client.getCurrentUser();
+    expect(requestsFor('query GetUser')).toBe(2);
+  });
+});
@@ -0,0 +1,133 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { LinearClient } from '@linear/sdk';
+import { LinearAuth } from '../auth';
+import { LinearGraphQLClient } from '../graphql/client';
+import { FileHandler } from '../features/files/handlers/file.handler';
+import { CommentHandler } from '../features/comments/handlers/comment.handler';
+
+const ISSUE_ID = '7a9c1e3f-5b7d-4f9a-8c2e-4a6c8e0b2d4f';
+
+describe('File uploads', () => {
+  let rawRequest: jest.Mock<(query: string, variables?: any) => Promise<{ data: unknown }>>;
+  let fetchMock: jest.SpiedFunction<typeof fetch>;
+  let client: LinearGraphQLClient;
+  let auth: LinearAuth;
+  let uploadDir: string;
+
+  const variablesOf = (operation: string) =>
+    rawRequest.mock.calls.find(([query]) => query.includes(operation))?.[1];
+
+  beforeEach(async () => {
+    uploadDir = await mkdtemp(join(tmpdir(), 'linear-upload-'));
+    delete process.env.LINEAR_UPLOAD_DIR;
+
+    rawRequest = jest.fn(async (query: string, variables?: any) => {
+      if (query.includes('mutation FileUpload')) {
+        const uploadFile = {
+          uploadUrl: `https://storage.example.com/${variables.filename}?signature=1`,
+          assetUrl: `https://uploads.linear.app/${variables.filename}`,
+          headers: [
+            { key: 'x-goog-content-length-range', value: `${variables.size},${variables.size}` },
+          ],
+        };
+        return { data: { fileUpload: { success: true, uploadFile } } };
+      }
+      if (query.includes('mutation CreateComment')) {
+        return { data: { commentCreate: { success: true, comment: { id: 'comment-1' } } } };
+      }
+      return { data: {} };
+    });
+    fetchMock = jest
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValue(new Response(null, { status: 200 }));
+    client = new LinearGraphQLClient({ client: { rawRequest } } as unknown as LinearClient);
+
+    auth = new LinearAuth();
+    jest.spyOn(auth, 'isAuthenticated').mockReturnValue(true);
+    jest.spyOn(auth, 'ensureValidToken').mockResolvedValue(undefined);
+  });
+
+  afterEach(async () => {
+    fetchMock.mockRestore();
+    delete process.env.LINEAR_UPLOAD_DIR;
+    await rm(uploadDir, { recursive: true, force: true });
+  });
+
+  it('should upload base64 content to the signed URL', async () => {
+    const handler = new FileHandler(auth, client);
+
+    const response = await handler.handleUploadFile({
+      content: Buffer.from('boom').toString('base64'),
+      filename: 'crash.log',
+    });
+
+    expect(variablesOf('mutation FileUpload')).toEqual({
+      contentType: 'text/plain',
+      filename: 'crash.log',
+      size: 4,
+    });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://storage.example.com/crash.log?signature=1');
+    expect(init).toMatchObject({
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'text/plain',
+        'Cache-Control': 'public, max-age=31536000',
+        'x-goog-content-length-range': '4,4',
+      },
+    });
+    expect(Buffer.from(init!.body as Uint8Array).toString()).toBe('boom');
+    expect(JSON.parse(response.content[0].text)).toEqual({
+      filename: 'crash.log',
+      contentType: 'text/plain',
+      size: 4,
+      assetUrl: 'https://uploads.linear.app/crash.log',
+      markdown: '[crash.log](https://uploads.linear.app/crash.log)',
+    });
+  });
+
+  it('should only read local files from LINEAR_UPLOAD_DIR', async () => {
+    const handler = new FileHandler(auth, client);
+    await writeFile(join(uploadDir, 'screenshot.png'), 'png');
+
+    await expect(handler.handleUploadFile({ path: 'screenshot.png' })).rejects.toThrow(
+      'Uploading local files is disabled'
+    );
+
+    process.env.LINEAR_UPLOAD_DIR = uploadDir;
+    await expect(handler.handleUploadFile({ path: '../../etc/passwd' })).rejects.toThrow(
+      '../../etc/passwd is outside of LINEAR_UPLOAD_DIR'
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    const response = await handler.handleUploadFile({ path: 'screenshot.png' });
+    expect(JSON.parse(response.content[0].text)).toMatchObject({
+      contentType: 'image/png',
+      markdown: '![screenshot.png](https://uploads.linear.app/screenshot.png)',
+    });
+  });
+
+  it('should embed files uploaded with a comment', async () => {
+    const handler = new CommentHandler(auth, client);
+
+    await handler.handleCommentCreate({
+      issueId: ISSUE_ID,
+      body: 'Still failing:',
+      files: [
+        { content: Buffer.from('png').toString('base64'), filename: 'after.png' },
+        { content: Buffer.from('log').toString('base64'), filename: 'output.txt' },
+      ],
+    });
+
+    expect(variablesOf('mutation CreateComment').input).toEqual({
+      issueId: ISSUE_ID,
+      body:
+        'Still failing:\n\n' +
+        '![after.png](https://uploads.linear.app/after.png)\n' +
+        '[output.txt](https://uploads.linear.app/output.txt)',
+    });
+  });
+});
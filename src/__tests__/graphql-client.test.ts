@@ -4,9 +4,11 @@ import { LinearClient } from '@linear/sdk';
 import { 
   CreateIssueInput, 
   CreateIssueResponse,
-  CreateIssuesResponse,
+  IssueBatchResponse,
   UpdateIssueInput,
   UpdateIssueResponse,
+  IssueUpdateResult,
+  IssueMutationResult,
   SearchIssuesInput,
   SearchIssuesResponse,
   DeleteIssueResponse
@@ -140,11 +142,11 @@ describe('LinearGraphQLClient', () => {
       
       const result: CreateIssueResponse = await graphqlClient.createIssue(input);
 
-      // Verify single mutation call with array input
+      // Verify single mutation call
       expect(mockRawRequest).toHaveBeenCalledWith(
         expect.any(String),
         expect.objectContaining({
-          input: [input]
+          input
         })
       );
 
@@ -355,8 +357,9 @@ describe('LinearGraphQLClient', () => {
     it('should create multiple issues with a single mutation', async () => {
       const mockResponse = {
         data: {
-          issueCreate: {
+          issueBatchCreate: {
             success: true,
+            lastSyncId: 1,
             issues: [
               {
                 id: 'issue-1',
@@ -390,7 +393,7 @@ describe('LinearGraphQLClient', () => {
         }
       ];
 
-      const result: CreateIssuesResponse = await graphqlClient.createIssues(issues);
+      const result: IssueBatchResponse = await graphqlClient.createIssues(issues);
 
       expect(result).toEqual(mockResponse.data);
       // Verify single mutation call
@@ -398,7 +401,7 @@ describe('LinearGraphQLClient', () => {
       expect(mockRawRequest).toHaveBeenCalledWith(
         expect.any(String),
         expect.objectContaining({
-          input: issues
+          input: { issues }
         })
       );
     });
@@ -406,7 +409,7 @@ describe('LinearGraphQLClient', () => {
     it('should update multiple issues with a single mutation', async () => {
       const mockResponse = {
         data: {
-          issueUpdate: {
+          issueBatchUpdate: {
             success: true,
             issues: [
               {
@@ -421,7 +424,8 @@ describe('LinearGraphQLClient', () => {
                 title: 'Updated Issue 2',
                 url: 'https://linear.app/test/issue/TEST-2'
               }
-            ]
+            ],
+            lastSyncId: 1
           }
         }
       };
@@ -430,9 +434,15 @@ describe('LinearGraphQLClient', () => {
 
       const ids = ['issue-1', 'issue-2'];
       const updateInput: UpdateIssueInput = { stateId: 'state-2' };
-      const result: UpdateIssueResponse = await graphqlClient.updateIssues(ids, updateInput);
-
-      expect(result).toEqual(mockResponse.data);
+      const result: IssueUpdateResult[] = await graphqlClient.updateIssues(ids, updateInput);
+
+      expect(result).toEqual(
+        mockResponse.data.issueBatchUpdate.issues.map((issue) => ({
+          id: issue.id,
+          success: true,
+          issue
+        }))
+      );
       // Verify single mutation call
       expect(mockRawRequest).toHaveBeenCalledTimes(1);
       expect(mockRawRequest).toHaveBeenCalledWith(
@@ -450,13 +460,18 @@ describe('LinearGraphQLClient', () => {
       const updateInput: UpdateIssueInput = { stateId: 'state-2' };
       await expect(
         graphqlClient.updateIssues(['issue-1'], updateInput)
-      ).rejects.toThrow('GraphQL operation failed: Update failed');
+      ).resolves.toEqual([
+        { id: 'issue-1', success: false, error: 'GraphQL operation failed: Update failed' }
+      ]);
     });
 
     it('should delete multiple issues with a single mutation', async () => {
       const mockResponse = {
         data: {
-          issueDelete: {
+          issue0: {
+            success: true
+          },
+          issue1: {
             success: true
           }
         }
@@ -465,17 +480,21 @@ describe('LinearGraphQLClient', () => {
       mockRawRequest.mockResolvedValueOnce(mockResponse);
 
       const ids = ['issue-1', 'issue-2'];
-      const result: DeleteIssueResponse = await graphqlClient.deleteIssues(ids);
+      const result: IssueMutationResult[] = await graphqlClient.deleteIssues(ids);
 
-      expect(result).toEqual(mockResponse.data);
-      // Verify single mutation call
+      expect(result).toEqual([
+        { id: 'issue-1', success: true },
+        { id: 'issue-2', success: true }
+      ]);
+      // Verify single mutation call, with one aliased field per issue
       expect(mockRawRequest).toHaveBeenCalledTimes(1);
-      expect(mockRawRequest).toHaveBeenCalledWith(
-        expect.any(String),
-        expect.objectContaining({
-          ids
-        })
-      );
+      const [query, variables] = mockRawRequest.mock.calls[0];
+      expect(query).toContain('issue0: issueDelete(id: $id0) { success }');
+      expect(query).toContain('issue1: issueDelete(id: $id1) { success }');
+      expect(variables).toEqual({
+        id0: 'issue-1',
+        id1: 'issue-2'
+      });
     });
   });
 
@@ -484,6 +503,10 @@ describe('LinearGraphQLClient', () => {
       const mockResponse = {
         data: {
           teams: {
+            pageInfo: {
+              hasNextPage: false,
+              endCursor: null
+            },
             nodes: [
               {
                 id: 'team-1',
@@ -0,0 +1,290 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { LinearServer } from '../server';
+import { HttpTransportServer } from '../core/transport/http.transport';
+import { loadServerConfig } from '../core/config/server.config';
+import { SessionManager } from '../core/session/session.manager';
+import { toolSchemas } from '../core/types/tool.types';
+
+describe('HttpTransportServer', () => {
+  let httpServer: HttpTransportServer;
+  let baseUrl: string;
+  const clients: Client[] = [];
+  const accessToken = process.env.LINEAR_ACCESS_TOKEN;
+
+  let linearServer: LinearServer;
+
+  const connect = async (transport: 'streamable' | 'sse', token?: string) => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const requestInit = token
+      ? { headers: { Authorization: `Bearer ${token}` } }
+      : undefined;
+    await client.connect(
+      transport === 'streamable'
+        ? new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), { requestInit })
+        : new SSEClientTransport(new URL(`${baseUrl}/sse`), { requestInit })
+    );
+    clients.push(client);
+    return client;
+  };
+
+  const initialize = (accept = 'application/json, text/event-stream') =>
+    fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: accept },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: {
+          protocolVersion: '2025-03-26',
+          capabilities: {},
+          clientInfo: { name: 'test-client', version: '1.0.0' },
+        },
+      }),
+    });
+
+  const start = async (argv: string[] = []) => {
+    const config = loadServerConfig(['--http', '--port', '0', ...argv], {});
+    linearServer = new LinearServer(config);
+    httpServer = new HttpTransportServer(config.http, (context) =>
+      linearServer.createMcpServer(context)
+    );
+    const address = await httpServer.listen();
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  };
+
+  beforeEach(async () => {
+    // Keep the server unauthenticated so no request reaches Linear
+    delete process.env.LINEAR_ACCESS_TOKEN;
+    await start();
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.close()));
+    await httpServer.close();
+    if (accessToken) process.env.LINEAR_ACCESS_TOKEN = accessToken;
+  });
+
+  it('should list tools over Streamable HTTP', async () => {
+    const client = await connect('streamable');
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name).sort()).toEqual(
+      Object.keys(toolSchemas).sort()
+    );
+  });
+
+  it('should list tools over the legacy SSE transport', async () => {
+    const client = await connect('sse');
+
+    const { tools } = await client.listTools();
+    expect(tools.length).toBe(Object.keys(toolSchemas).length);
+  });
+
+  it('should only list read-only tools in read-only mode', async () => {
+    await httpServer.close();
+    await start(['--read-only']);
+    const client = await connect('streamable');
+
+    const { tools } = await client.listTools();
+    expect(tools.length).toBeLessThan(Object.keys(toolSchemas).length);
+    expect(tools.every((tool) => tool.annotations?.readOnlyHint)).toBe(true);
+  });
+
+  it('should keep a separate session per client', async () => {
+    await connect('streamable');
+    await connect('streamable');
+
+    expect(httpServer.sessionCount).toBe(2);
+  });
+
+  it('should reject requests without a session', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject request bodies that are too large', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+      body: JSON.stringify({ padding: 'x'.repeat(5 * 1024 * 1024) }),
+    });
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toEqual({
+      jsonrpc: '2.0',
+      error: { code: -32000, message: 'Payload Too Large' },
+      id: null,
+    });
+  });
+
+  it('should report tool errors through the protocol', async () => {
+    const client = await connect('streamable');
+
+    await expect(
+      client.callTool({ name: 'linear_get_user', arguments: {} })
+    ).rejects.toThrow('Not authenticated');
+  });
+
+  it('should reject arguments that do not match the tool schema', async () => {
+    const client = await connect('streamable');
+
+    await expect(
+      client.callTool({ name: 'linear_get_issue', arguments: { identifier: 42 } })
+    ).rejects.toThrow('Invalid arguments for linear_get_issue: identifier must be of type string');
+  });
+
+  it('should give each bearer token its own Linear session', async () => {
+    await connect('streamable', 'token-a');
+    await connect('sse', 'token-a');
+    await connect('streamable', 'token-b');
+
+    expect(httpServer.sessionCount).toBe(3);
+    expect(linearServer.sessionCount).toBe(2);
+  });
+
+  it('should reject requests whose credentials differ from the session', async () => {
+    const client = await connect('streamable', 'token-a');
+    const transport = client.transport as StreamableHTTPClientTransport;
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: 'Bearer token-b',
+        'mcp-session-id': transport.sessionId!,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should not give HTTP sessions the server access token', async () => {
+    await httpServer.close();
+    process.env.LINEAR_ACCESS_TOKEN = 'server-token';
+    await start();
+    delete process.env.LINEAR_ACCESS_TOKEN;
+    const client = await connect('streamable');
+
+    await expect(
+      client.callTool({ name: 'linear_get_user', arguments: {} })
+    ).rejects.toThrow('Not authenticated');
+  });
+
+  it('should close sessions that stay idle', async () => {
+    await httpServer.close();
+    await start(['--session-timeout', '0.05']);
+
+    const response = await initialize();
+    await response.text();
+    expect(httpServer.sessionCount).toBe(1);
+    expect(linearServer.sessionCount).toBe(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(httpServer.sessionCount).toBe(0);
+    expect(linearServer.sessionCount).toBe(0);
+  });
+
+  it('should release sessions whose initialization failed', async () => {
+    const response = await initialize('text/plain');
+
+    expect(response.status).toBe(406);
+    expect(httpServer.sessionCount).toBe(0);
+    expect(linearServer.sessionCount).toBe(0);
+  });
+
+  it('should require a bearer token when configured', async () => {
+    await httpServer.close();
+    await start(['--require-auth']);
+
+    await expect(connect('streamable')).rejects.toThrow();
+    await expect(connect('streamable', 'token-a')).resolves.toBeDefined();
+  });
+});
+
+describe('SessionManager', () => {
+  it('should share sessions between connections using the same token', () => {
+    const manager = new SessionManager();
+
+    const first = manager.acquire({ sessionId: 'session-1', accessToken: 'token-a' });
+    const second = manager.acquire({ sessionId: 'session-2', accessToken: 'token-a' });
+    const other = manager.acquire({ sessionId: 'session-3', accessToken: 'token-b' });
+
+    expect(second.session).toBe(first.session);
+    expect(other.session).not.toBe(first.session);
+    expect(first.session.auth.isAuthenticated()).toBe(true);
+  });
+
+  it('should give connections without a token a private session', () => {
+    const manager = new SessionManager();
+
+    const first = manager.acquire({ sessionId: 'session-1' });
+    const second = manager.acquire({ sessionId: 'session-2' });
+
+    expect(second.session).not.toBe(first.session);
+    expect(first.session.auth.isAuthenticated()).toBe(false);
+  });
+
+  it('should fall back to the default access token', () => {
+    const manager = new SessionManager({ defaultAccessToken: 'default-token' });
+
+    expect(manager.acquire({ sessionId: 'session-1' }).session.auth.isAuthenticated()).toBe(true);
+  });
+
+  it('should drop sessions once every connection released them', () => {
+    const manager = new SessionManager();
+
+    const first = manager.acquire({ sessionId: 'session-1', accessToken: 'token-a' });
+    manager.acquire({ sessionId: 'session-2', accessToken: 'token-a' });
+
+    manager.release(first.key);
+    expect(manager.size).toBe(1);
+    manager.release(first.key);
+    expect(manager.size).toBe(0);
+  });
+});
+
+describe('loadServerConfig', () => {
+  it('should default to stdio', () => {
+    expect(loadServerConfig([], {}).transport).toBe('stdio');
+  });
+
+  it('should read the transport from the environment', () => {
+    const config = loadServerConfig([], { MCP_TRANSPORT: 'http', MCP_HTTP_PORT: '9000' });
+    expect(config.transport).toBe('http');
+    expect(config.http.port).toBe(9000);
+  });
+
+  it('should prefer CLI flags over the environment', () => {
+    const config = loadServerConfig(['--transport=stdio'], { MCP_TRANSPORT: 'http' });
+    expect(config.transport).toBe('stdio');
+  });
+
+  it('should read the session timeout in seconds', () => {
+    expect(loadServerConfig([], {}).http.sessionTimeout).toBe(30 * 60 * 1000);
+    expect(loadServerConfig(['--session-timeout', '90'], {}).http.sessionTimeout).toBe(90000);
+    expect(() => loadServerConfig([], { MCP_HTTP_SESSION_TIMEOUT: '0' })).toThrow(
+      'Invalid session timeout'
+    );
+  });
+
+  it('should reject unknown transports', () => {
+    expect(() => loadServerConfig(['--transport', 'ws'], {})).toThrow('Unsupported transport');
+  });
+});
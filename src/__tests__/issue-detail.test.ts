@@ -0,0 +1,132 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { LinearClient } from '@linear/sdk';
+import { LinearAuth } from '../auth';
+import { LinearGraphQLClient } from '../graphql/client';
+import { IssueHandler } from '../features/issues/handlers/issue.handler';
+
+const ISSUE_ID = '7a9c1e3f-5b7d-4f9a-8c2e-4a6c8e0b2d4f';
+
+const comment = (id: string, createdAt: string, parent?: string) => ({
+  id,
+  body: `Comment ${id}`,
+  url: `https://linear.app/comment/${id}`,
+  createdAt,
+  updatedAt: createdAt,
+  user: { id: 'user-1', name: 'Ada', email: 'ada@example.com' },
+  parent: parent ? { id: parent } : null,
+});
+
+const issue = {
+  id: ISSUE_ID,
+  identifier: 'ENG-1',
+  title: 'Checkout fails',
+  url: 'https://linear.app/issue/ENG-1',
+  priority: 2,
+  priorityLabel: 'High',
+  state: { id: 'state-1', name: 'In Progress', type: 'started', color: '#f2c94c' },
+  team: { id: 'team-1', name: 'Engineering', key: 'ENG' },
+  labels: { nodes: [{ id: 'label-1', name: 'Bug', color: '#eb5757' }] },
+  subscribers: { nodes: [{ id: 'user-1', name: 'Ada', email: 'ada@example.com' }] },
+  children: { nodes: [] },
+  attachments: {
+    nodes: [
+      {
+        id: 'attachment-1',
+        title: 'PR #12',
+        url: 'https://github.com/acme/shop/pull/12',
+        createdAt: '2024-05-01',
+      },
+    ],
+  },
+  relations: {
+    nodes: [
+      {
+        id: 'relation-1',
+        type: 'blocks',
+        relatedIssue: { id: 'issue-2', identifier: 'ENG-2', title: 'Release' },
+      },
+    ],
+  },
+  inverseRelations: { nodes: [] },
+  history: {
+    nodes: [{ id: 'history-1', createdAt: '2024-05-01', toState: { name: 'In Progress' } }],
+  },
+};
+
+describe('Issue detail', () => {
+  let rawRequest: jest.Mock<(query: string, variables?: any) => Promise<{ data: unknown }>>;
+  let handler: IssueHandler;
+
+  beforeEach(() => {
+    rawRequest = jest.fn(async (query: string, variables?: any) => {
+      if (query.includes('query GetIssueReferences')) {
+        const nodes = [{ id: ISSUE_ID, identifier: 'ENG-1', team: { id: 'team-1' } }];
+        return { data: { issues: { nodes } } };
+      }
+      if (query.includes('query GetIssueDetail')) {
+        const comments = {
+          pageInfo: { hasNextPage: true, endCursor: 'cursor-1' },
+          nodes: [
+            comment('c2', '2024-05-02T10:00:00Z', 'c1'),
+            comment('c1', '2024-05-02T09:00:00Z'),
+          ],
+        };
+        return { data: { issue: variables.id === ISSUE_ID ? { ...issue, comments } : null } };
+      }
+      if (query.includes('query GetIssueComments')) {
+        const comments = {
+          pageInfo: { hasNextPage: false, endCursor: null },
+          nodes: [
+            comment('c3', '2024-05-03T09:00:00Z'),
+            comment('c4', '2024-05-03T10:00:00Z', 'c1'),
+          ],
+        };
+        return { data: { issue: { comments } } };
+      }
+      return { data: {} };
+    });
+
+    const auth = new LinearAuth();
+    jest.spyOn(auth, 'isAuthenticated').mockReturnValue(true);
+    jest.spyOn(auth, 'ensureValidToken').mockResolvedValue(undefined);
+    handler = new IssueHandler(
+      auth,
+      new LinearGraphQLClient({ client: { rawRequest } } as unknown as LinearClient)
+    );
+  });
+
+  it('should page through comments and group them into threads', async () => {
+    const response = await handler.handleGetIssue({ identifier: 'ENG-1' });
+
+    const [, variables] = rawRequest.mock.calls.find(([query]) =>
+      query.includes('query GetIssueComments')
+    )!;
+    expect(variables).toEqual({ id: ISSUE_ID, first: 100, after: 'cursor-1' });
+
+    const { issue: detail } = JSON.parse(response.content[0].text);
+    const threads = detail.comments.map((thread: any) => [
+      thread.id,
+      thread.replies.map((reply: any) => reply.id),
+    ]);
+    expect(threads).toEqual([
+      ['c1', ['c2', 'c4']],
+      ['c3', []],
+    ]);
+    expect(detail.commentsTruncated).toBe(false);
+  });
+
+  it('should return connections as plain lists, with relations from the issue', async () => {
+    const response = await handler.handleGetIssue({ identifier: 'ENG-1' });
+
+    expect(JSON.parse(response.content[0].text).issue).toMatchObject({
+      identifier: 'ENG-1',
+      team: { key: 'ENG' },
+      labels: [{ name: 'Bug' }],
+      subscribers: [{ name: 'Ada' }],
+      children: [],
+      attachments: [{ title: 'PR #12' }],
+      relations: [{ id: 'relation-1', type: 'blocks', issue: { identifier: 'ENG-2' } }],
+      history: [{ id: 'history-1', changes: [{ type: 'state', from: null, to: 'In Progress' }] }],
+    });
+  });
+});
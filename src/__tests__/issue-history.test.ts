@@ -0,0 +1,156 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { LinearClient } from '@linear/sdk';
+import { LinearAuth } from '../auth';
+import { LinearGraphQLClient } from '../graphql/client';
+import { HistoryHandler } from '../features/history/handlers/history.handler';
+
+const ISSUE_ID = '7a9c1e3f-5b7d-4f9a-8c2e-4a6c8e0b2d4f';
+
+const ada = { id: 'user-1', name: 'Ada' };
+
+/** History entries, in two pages; Linear sets only the fields of what changed */
+const pages = [
+  [
+    {
+      id: 'h2',
+      createdAt: '2024-05-02T10:00:00Z',
+      actor: ada,
+      toAssignee: ada,
+      fromPriority: 0,
+      toPriority: 2,
+    },
+    {
+      id: 'h1',
+      createdAt: '2024-05-01T09:00:00Z',
+      actor: ada,
+      fromState: { name: 'Backlog' },
+      toState: { name: 'Todo' },
+    },
+    {
+      id: 'h3',
+      createdAt: '2024-05-03T11:00:00Z',
+      actor: null,
+      addedLabels: [{ name: 'Bug' }],
+      removedLabels: [],
+    },
+  ],
+  [
+    {
+      id: 'h4',
+      createdAt: '2024-05-04T12:00:00Z',
+      actor: ada,
+      fromState: { name: 'Todo' },
+      toState: { name: 'In Progress' },
+      fromProject: null,
+      toProject: { name: 'Checkout' },
+    },
+    { id: 'h5', createdAt: '2024-05-04T13:00:00Z', actor: ada, fromState: null, toState: null },
+  ],
+];
+
+describe('Issue history', () => {
+  let rawRequest: jest.Mock<(query: string, variables?: any) => Promise<{ data: unknown }>>;
+  let handler: HistoryHandler;
+
+  const events = async (args: Parameters<HistoryHandler['handleGetIssueHistory']>[0]) => {
+    const response = await handler.handleGetIssueHistory(args);
+    return JSON.parse(response.content[0].text).events;
+  };
+
+  beforeEach(() => {
+    rawRequest = jest.fn(async (query: string, variables?: any) => {
+      if (query.includes('query GetIssueReferences')) {
+        const nodes = [{ id: ISSUE_ID, identifier: 'ENG-1', team: { id: 'team-1' } }];
+        return { data: { issues: { nodes } } };
+      }
+      if (query.includes('query GetIssueHistory')) {
+        const page = variables.after === 'cursor-1' ? 1 : 0;
+        const history = {
+          pageInfo: { hasNextPage: page === 0, endCursor: page === 0 ? 'cursor-1' : null },
+          nodes: pages[page],
+        };
+        return { data: { issue: { id: ISSUE_ID, identifier: 'ENG-1', history } } };
+      }
+      return { data: {} };
+    });
+
+    const auth = new LinearAuth();
+    jest.spyOn(auth, 'isAuthenticated').mockReturnValue(true);
+    jest.spyOn(auth, 'ensureValidToken').mockResolvedValue(undefined);
+    handler = new HistoryHandler(
+      auth,
+      new LinearGraphQLClient({ client: { rawRequest } } as unknown as LinearClient)
+    );
+  });
+
+  it('should page through the history and render a timeline', async () => {
+    const response = await handler.handleGetIssueHistory({ issueId: 'ENG-1' });
+
+    const historyCalls = rawRequest.mock.calls.filter(([query]) =>
+      query.includes('query GetIssueHistory')
+    );
+    expect(historyCalls[0][0]).toContain('fragment IssueHistoryFields on IssueHistory');
+    expect(historyCalls.map(([, variables]) => variables)).toEqual([
+      { id: ISSUE_ID, first: 100, after: null },
+      { id: ISSUE_ID, first: 100, after: 'cursor-1' },
+    ]);
+    expect(JSON.parse(response.content[0].text)).toEqual({
+      issue: 'ENG-1',
+      events: [
+        {
+          id: 'h1',
+          createdAt: '2024-05-01T09:00:00Z',
+          actor: 'Ada',
+          changes: [{ type: 'state', from: 'Backlog', to: 'Todo' }],
+        },
+        {
+          id: 'h2',
+          createdAt: '2024-05-02T10:00:00Z',
+          actor: 'Ada',
+          changes: [
+            { type: 'assignee', from: null, to: 'Ada' },
+            { type: 'priority', from: 'None', to: 'High' },
+          ],
+        },
+        {
+          id: 'h3',
+          createdAt: '2024-05-03T11:00:00Z',
+          actor: null,
+          changes: [{ type: 'labels', added: ['Bug'], removed: [] }],
+        },
+        {
+          id: 'h4',
+          createdAt: '2024-05-04T12:00:00Z',
+          actor: 'Ada',
+          changes: [
+            { type: 'state', from: 'Todo', to: 'In Progress' },
+            { type: 'project', from: null, to: 'Checkout' },
+          ],
+        },
+      ],
+      truncated: false,
+    });
+  });
+
+  it('should keep the changes of a date range, including whole days', async () => {
+    const result = await events({ issueId: 'ENG-1', since: '2024-05-02', until: '2024-05-03' });
+
+    expect(result.map((event: any) => event.id)).toEqual(['h2', 'h3']);
+  });
+
+  it('should keep only the requested kinds of changes', async () => {
+    const result = await events({ issueId: 'ENG-1', types: ['state'] });
+
+    expect(result.map((event: any) => [event.id, event.changes])).toEqual([
+      ['h1', [{ type: 'state', from: 'Backlog', to: 'Todo' }]],
+      ['h4', [{ type: 'state', from: 'Todo', to: 'In Progress' }]],
+    ]);
+  });
+
+  it('should reject dates it cannot read', async () => {
+    await expect(
+      handler.handleGetIssueHistory({ issueId: 'ENG-1', since: 'last week' })
+    ).rejects.toThrow('since must be an ISO 8601 date, e.g. 2024-05-01');
+    expect(rawRequest).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,182 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { LinearClient } from '@linear/sdk';
+import { LinearAuth } from '../auth';
+import { LinearGraphQLClient } from '../graphql/client';
+import { IssueHandler } from '../features/issues/handlers/issue.handler';
+import { CommentHandler } from '../features/comments/handlers/comment.handler';
+import { IssueResolver } from '../features/issues/resolvers/issue.resolver';
+import { NotFoundError } from '../core/errors/linear.errors';
+
+const ISSUE_ID = '7a9c1e3f-5b7d-4f9a-8c2e-4a6c8e0b2d4f';
+const PARENT_ID = '8b0d2f4a-6c8e-4a0b-9d3f-5b7d9f1c3e5a';
+const TEAM_ID = '6c3f1a52-1d4e-4b8a-9a3e-2f1d0c9b8a71';
+
+const issues = [
+  { id: ISSUE_ID, identifier: 'ENG-1', team: { id: TEAM_ID } },
+  { id: PARENT_ID, identifier: 'ENG-2', team: { id: TEAM_ID } },
+];
+
+describe('IssueResolver', () => {
+  let rawRequest: jest.Mock<(query: string, variables?: any) => Promise<{ data: unknown }>>;
+  let client: LinearGraphQLClient;
+
+  const lookups = () =>
+    rawRequest.mock.calls.filter(([query]) => query.includes('query GetIssueReferences'));
+
+  beforeEach(() => {
+    rawRequest = jest.fn(async (query: string, variables?: any) => {
+      if (query.includes('query GetIssueReferences')) {
+        // Matches the filter built by the resolver: ids, then team key and number pairs
+        const nodes = issues.filter((issue) =>
+          variables.filter.or.some(
+            (filter: any) =>
+              filter.id?.in.includes(issue.id) ||
+              `${filter.team?.key.eq}-${filter.number?.eq}` === issue.identifier
+          )
+        );
+        return { data: { issues: { nodes } } };
+      }
+      if (query.includes('mutation CreateBatchIssues')) {
+        return { data: { issueBatchCreate: { success: true, issues: [] } } };
+      }
+      if (query.includes('mutation CreateComment')) {
+        return { data: { commentCreate: { success: true, comment: { id: 'comment-1' } } } };
+      }
+      return { data: {} };
+    });
+    client = new LinearGraphQLClient({ client: { rawRequest } } as unknown as LinearClient);
+  });
+
+  it('should pass ids through without a lookup', async () => {
+    const resolver = new IssueResolver(client);
+
+    await expect(resolver.resolveIds([ISSUE_ID])).resolves.toEqual([ISSUE_ID]);
+    expect(rawRequest).not.toHaveBeenCalled();
+  });
+
+  it('should resolve identifiers, ignoring case', async () => {
+    const resolver = new IssueResolver(client);
+
+    await expect(resolver.resolveIds(['eng-2', ISSUE_ID, 'ENG-1'])).resolves.toEqual([
+      PARENT_ID,
+      ISSUE_ID,
+      ISSUE_ID,
+    ]);
+    expect(lookups()).toHaveLength(1);
+  });
+
+  it('should report unknown issues', async () => {
+    const resolver = new IssueResolver(client);
+
+    const error = await resolver.resolveIds(['ENG-1', 'ENG-404', 'OPS-1']).catch((e) => e);
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.message).toBe('Issues not found: ENG-404, OPS-1');
+    expect(error.details.field).toBe('issueIds');
+
+    await expect(resolver.resolveIssues([ISSUE_ID.toUpperCase()])).resolves.toEqual([
+      { id: ISSUE_ID, identifier: 'ENG-1', teamId: TEAM_ID },
+    ]);
+  });
+
+  it('should batch the lookups of a tool call', async () => {
+    const auth = new LinearAuth();
+    jest.spyOn(auth, 'isAuthenticated').mockReturnValue(true);
+    jest.spyOn(auth, 'ensureValidToken').mockResolvedValue(undefined);
+    const handler = new IssueHandler(auth, client);
+
+    await handler.handleCreateIssues({
+      issues: [
+        { title: 'A', description: '', teamId: TEAM_ID, parentId: 'ENG-1' },
+        { title: 'B', description: '', teamId: TEAM_ID, parentId: 'ENG-2' },
+        { title: 'C', description: '', teamId: TEAM_ID, parentId: 'ENG-1' },
+      ],
+    });
+
+    expect(lookups()).toHaveLength(1);
+    const [, variables] = rawRequest.mock.calls.find(([query]) =>
+      query.includes('mutation CreateBatchIssues')
+    )!;
+    expect(variables.input.issues.map((issue: any) => issue.parentId)).toEqual([
+      ISSUE_ID,
+      PARENT_ID,
+      ISSUE_ID,
+    ]);
+  });
+
+  it('should accept identifiers when commenting', async () => {
+    const auth = new LinearAuth();
+    jest.spyOn(auth, 'isAuthenticated').mockReturnValue(true);
+    jest.spyOn(auth, 'ensureValidToken').mockResolvedValue(undefined);
+    const handler = new CommentHandler(auth, client);
+
+    await handler.handleCommentCreate({ body: 'Done', issueId: 'ENG-2' });
+
+    const [, variables] = rawRequest.mock.calls.find(([query]) =>
+      query.includes('mutation CreateComment')
+    )!;
+    expect(variables.input).toEqual({ body: 'Done', issueId: PARENT_ID });
+  });
+});
+
+describe('Issue identifier search', () => {
+  let rawRequest: jest.Mock<(query: string, variables?: any) => Promise<{ data: unknown }>>;
+  let handler: IssueHandler;
+
+  beforeEach(() => {
+    // ENG-12 and OPS-12 share their number; only OPS-12 exists
+    rawRequest = jest.fn(async (_query: string, variables?: any) => ({
+      data: {
+        issues: {
+          pageInfo: { hasNextPage: false, endCursor: null },
+          nodes: variables.filter.or.some(
+            (filter: any) => filter.team.key.eq === 'OPS' && filter.number.eq === 12
+          )
+            ? [{ id: ISSUE_ID, identifier: 'OPS-12' }]
+            : [],
+        },
+      },
+    }));
+    const auth = new LinearAuth();
+    jest.spyOn(auth, 'isAuthenticated').mockReturnValue(true);
+    jest.spyOn(auth, 'ensureValidToken').mockResolvedValue(undefined);
+    handler = new IssueHandler(
+      auth,
+      new LinearGraphQLClient({ client: { rawRequest } } as unknown as LinearClient)
+    );
+  });
+
+  it('should match identifiers by team key and number', async () => {
+    const response = await handler.handleSearchIssuesByIdentifier({
+      identifiers: ['ENG-12', 'ops-12', 'unknown'],
+    });
+
+    expect(rawRequest).toHaveBeenCalledTimes(1);
+    expect(rawRequest.mock.calls[0][1]).toEqual({
+      filter: {
+        or: [
+          { team: { key: { eq: 'ENG' } }, number: { eq: 12 } },
+          { team: { key: { eq: 'OPS' } }, number: { eq: 12 } },
+        ],
+      },
+      first: 2,
+    });
+    expect(JSON.parse(response.content[0].text)).toMatchObject({
+      issues: { nodes: [{ identifier: 'OPS-12' }] },
+      notFound: ['ENG-12', 'unknown'],
+    });
+  });
+
+  it('should find identifiers written in lower case or with leading zeros', async () => {
+    const response = await handler.handleSearchIssuesByIdentifier({
+      identifiers: ['ops-12', 'OPS-012'],
+    });
+
+    expect(JSON.parse(response.content[0].text).notFound).toEqual([]);
+  });
+
+  it('should not confuse issues of other teams with the same number', async () => {
+    await expect(handler.handleGetIssue({ identifier: 'ENG-12' })).resolves.toMatchObject({
+      isError: true,
+    });
+  });
+});
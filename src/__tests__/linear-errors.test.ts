@@ -0,0 +1,188 @@
+import { jest, describe, it, expect } from '@jest/globals';
+import { LinearClient } from '@linear/sdk';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { LinearAuth } from '../auth';
+import { LinearGraphQLClient } from '../graphql/client';
+import { IssueHandler } from '../features/issues/handlers/issue.handler';
+import {
+  AuthExpiredError,
+  ConflictError,
+  ForbiddenError,
+  LinearApiError,
+  NotFoundError,
+  RateLimitedError,
+  ValidationError,
+  parseLinearApiError,
+} from '../core/errors/linear.errors';
+
+/**
+ * Builds an error shaped like the GraphQL ClientError the Linear SDK wraps.
+ */
+const clientError = (
+  extensions: Record<string, unknown>,
+  { status = 200, headers = {}, message = 'Request failed' }: {
+    status?: number;
+    headers?: Record<string, string>;
+    message?: string;
+  } = {}
+) =>
+  Object.assign(new Error(`${message}: {"response":{}}`), {
+    response: {
+      errors: [{ message, path: ['issueUpdate'], extensions }],
+      status,
+      headers: new Headers(headers),
+    },
+  });
+
+describe('parseLinearApiError', () => {
+  it('should categorize errors by their GraphQL extensions', () => {
+    expect(parseLinearApiError(clientError({ type: 'forbidden' }))).toBeInstanceOf(ForbiddenError);
+    expect(parseLinearApiError(clientError({ type: 'feature not accessible' }))).toBeInstanceOf(
+      ForbiddenError
+    );
+    expect(parseLinearApiError(clientError({ type: 'ratelimited' }))).toBeInstanceOf(
+      RateLimitedError
+    );
+    expect(parseLinearApiError(clientError({ type: 'authentication error' }))).toBeInstanceOf(
+      AuthExpiredError
+    );
+    expect(parseLinearApiError(clientError({ type: 'lock timeout' }))).toBeInstanceOf(
+      ConflictError
+    );
+    expect(parseLinearApiError(clientError({ code: 'INPUT_ERROR' }))).toBeInstanceOf(
+      ValidationError
+    );
+  });
+
+  it('should treat invalid input referencing a missing entity as not found', () => {
+    const error = parseLinearApiError(
+      clientError({
+        type: 'invalid input',
+        userPresentableMessage: 'Could not find referenced Issue.',
+      })
+    );
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.message).toBe('GraphQL operation failed: Could not find referenced Issue.');
+  });
+
+  it('should include the offending field and request id', () => {
+    const error = parseLinearApiError(
+      clientError(
+        {
+          type: 'invalid input',
+          code: 'INPUT_ERROR',
+          userPresentableMessage: 'Priority must be between 0 and 4',
+          validationErrors: [{ property: 'priority' }],
+        },
+        { status: 400, headers: { 'X-Request-Id': 'req-123' } }
+      )
+    );
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.details).toEqual({
+      code: 'INPUT_ERROR',
+      field: 'priority',
+      requestId: 'req-123',
+      status: 400,
+    });
+  });
+
+  it('should read the retry delay of rate limited requests', () => {
+    const error = parseLinearApiError(
+      clientError({ type: 'ratelimited' }, { status: 400, headers: { 'Retry-After': '30' } })
+    );
+
+    expect(error.details.retryAfterMs).toBe(30000);
+  });
+
+  it('should fall back to the HTTP status', () => {
+    const error = Object.assign(new Error('GraphQL Error (Code: 401)'), {
+      response: { status: 401 },
+    });
+
+    expect(parseLinearApiError(error)).toBeInstanceOf(AuthExpiredError);
+  });
+
+  it('should keep other errors generic', () => {
+    const error = parseLinearApiError(new Error('socket hang up'));
+
+    expect(error.constructor).toBe(LinearApiError);
+    expect(error.kind).toBe('unknown');
+    expect(error.message).toBe('GraphQL operation failed: socket hang up');
+  });
+});
+
+describe('Handler error mapping', () => {
+  const createHandler = (error: unknown) => {
+    const rawRequest = jest.fn(async () => {
+      throw error;
+    });
+    const graphqlClient = new LinearGraphQLClient({
+      client: { rawRequest },
+    } as unknown as LinearClient);
+    const auth = new LinearAuth();
+    jest.spyOn(auth, 'isAuthenticated').mockReturnValue(true);
+    jest.spyOn(auth, 'ensureValidToken').mockResolvedValue(undefined);
+    return new IssueHandler(auth, graphqlClient);
+  };
+
+  it('should return not found errors as tool errors', async () => {
+    const handler = createHandler(
+      clientError(
+        { type: 'invalid input', userPresentableMessage: 'Entity not found' },
+        { headers: { 'x-request-id': 'req-1' } }
+      )
+    );
+
+    const result = await handler.handleDeleteIssue({ id: 'missing' });
+
+    expect(result).toMatchObject({ isError: true });
+    expect(JSON.parse(result.content[0].text)).toEqual({
+      error: 'Failed to delete issue: GraphQL operation failed: Entity not found',
+      kind: 'not_found',
+      code: 'invalid input',
+      requestId: 'req-1',
+      status: 200,
+    });
+  });
+
+  it('should map validation errors to invalid params', async () => {
+    const handler = createHandler(
+      clientError({ type: 'invalid input', field: 'input.stateId' }, { status: 400 })
+    );
+
+    const error = await handler
+      .handleEditIssue({ issueId: 'issue-1', stateId: 'nope' })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.code).toBe(ErrorCode.InvalidParams);
+    expect(error.data).toMatchObject({ kind: 'validation', field: 'input.stateId' });
+  });
+
+  it('should ask to re-authenticate when the token was rejected', async () => {
+    const handler = createHandler(clientError({ type: 'authentication error' }));
+
+    await expect(handler.handleDeleteIssue({ id: 'issue-1' })).rejects.toThrow(
+      new McpError(
+        ErrorCode.InvalidRequest,
+        'Failed to delete issue: GraphQL operation failed: Request failed. Re-authenticate with linear_auth.'
+      )
+    );
+  });
+
+  it('should keep MCP errors and report other failures as internal errors', async () => {
+    const handler = createHandler(new Error('socket hang up'));
+
+    await expect(handler.handleDeleteIssue({} as { id: string })).rejects.toThrow(
+      new McpError(ErrorCode.InvalidParams, 'Missing required parameters: id')
+    );
+    await expect(handler.handleDeleteIssue({ id: 'issue-1' })).rejects.toThrow(
+      new McpError(
+        ErrorCode.InternalError,
+        'Failed to delete issue: GraphQL operation failed: socket hang up'
+      )
+    );
+  });
+});
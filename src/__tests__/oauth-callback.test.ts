@@ -0,0 +1,124 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { LinearAuth } from '../auth';
+import { OAuthCallbackListener } from '../core/auth/oauth-callback.listener';
+import { AuthHandler } from '../features/auth/handlers/auth.handler';
+
+/**
+ * Finds a port that is free to listen on.
+ */
+const getFreePort = async (): Promise<number> => {
+  const server = createServer();
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  return port;
+};
+
+describe('OAuthCallbackListener', () => {
+  let redirectUri: string;
+
+  beforeEach(async () => {
+    redirectUri = `http://127.0.0.1:${await getFreePort()}/callback`;
+  });
+
+  it('should hand the code and state to the callback and stop listening', async () => {
+    const onCallback = jest.fn(async (_code: string, _state: string) => undefined);
+    const listener = new OAuthCallbackListener(redirectUri, onCallback);
+    await listener.listen();
+
+    const response = await fetch(`${redirectUri}?code=test-code&state=test-state`);
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('Successfully authenticated with Linear');
+    await expect(listener.completion).resolves.toBeUndefined();
+    expect(onCallback).toHaveBeenCalledWith('test-code', 'test-state');
+    await expect(fetch(redirectUri)).rejects.toThrow();
+  });
+
+  it('should reject when the authorization was denied', async () => {
+    const onCallback = jest.fn(async (_code: string, _state: string) => undefined);
+    const listener = new OAuthCallbackListener(redirectUri, onCallback);
+    await listener.listen();
+
+    const response = await fetch(`${redirectUri}?error=access_denied`);
+
+    expect(response.status).toBe(400);
+    await expect(listener.completion).rejects.toThrow('Authorization denied: access_denied');
+    expect(onCallback).not.toHaveBeenCalled();
+  });
+
+  it('should report a failed code exchange', async () => {
+    const listener = new OAuthCallbackListener(redirectUri, async () => {
+      throw new Error('OAuth state mismatch');
+    });
+    await listener.listen();
+
+    const response = await fetch(`${redirectUri}?code=test-code&state=forged`);
+
+    expect(response.status).toBe(400);
+    expect(await response.text()).toContain('OAuth state mismatch');
+    await expect(listener.completion).rejects.toThrow('OAuth state mismatch');
+  });
+
+  it('should ignore requests to other paths', async () => {
+    const listener = new OAuthCallbackListener(redirectUri, async () => undefined);
+    await listener.listen();
+
+    const response = await fetch(new URL('/favicon.ico', redirectUri));
+    expect(response.status).toBe(404);
+
+    await listener.close();
+    await expect(listener.completion).rejects.toThrow('OAuth callback listener closed');
+  });
+
+  it('should time out without a callback', async () => {
+    const listener = new OAuthCallbackListener(redirectUri, async () => undefined, 10);
+    await listener.listen();
+
+    await expect(listener.completion).rejects.toThrow('Timed out waiting for the OAuth callback');
+  });
+
+  it('should only accept loopback redirect URIs', () => {
+    expect(
+      () => new OAuthCallbackListener('https://example.com/callback', async () => undefined)
+    ).toThrow('Loopback authorization requires');
+  });
+});
+
+describe('AuthHandler loopback authorization', () => {
+  it('should complete the flow from the loopback callback', async () => {
+    const redirectUri = `http://localhost:${await getFreePort()}/callback`;
+    const auth = new LinearAuth();
+    const handleCallback = jest
+      .spyOn(auth, 'handleCallback')
+      .mockResolvedValue(undefined);
+    const handler = new AuthHandler(auth);
+
+    const result = await handler.handleAuth({
+      clientId: 'test-client-id',
+      clientSecret: 'test-client-secret',
+      redirectUri,
+      loopback: true,
+    });
+    const authUrl = new URL(result.content[0].text.split('\n')[1]);
+    const state = authUrl.searchParams.get('state')!;
+
+    const pending = handler.handleAuthCallback({});
+    await fetch(`${redirectUri}?code=test-code&state=${encodeURIComponent(state)}`);
+
+    await expect(pending).resolves.toEqual({
+      content: [{ type: 'text', text: 'Successfully authenticated with Linear' }],
+    });
+    expect(handleCallback).toHaveBeenCalledWith('test-code', state);
+  });
+
+  it('should require a code when no loopback authorization is pending', async () => {
+    const handler = new AuthHandler(new LinearAuth());
+
+    await expect(handler.handleAuthCallback({})).rejects.toThrow(
+      'Missing required parameters: code, state'
+    );
+  });
+});
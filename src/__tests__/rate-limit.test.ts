@@ -0,0 +1,221 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import type { LinearClient as LinearClientType } from '@linear/sdk';
+import { LinearAuth } from '../auth';
+import { LinearGraphQLClient } from '../graphql/client';
+import { RateLimitHandler } from '../features/rate-limit/handlers/rate-limit.handler';
+import { RateLimitedError, ValidationError } from '../core/errors/linear.errors';
+
+// The SDK is mocked globally; these tests talk to a local mock GraphQL server
+const { LinearClient } = jest.requireActual<{ LinearClient: typeof LinearClientType }>(
+  '@linear/sdk'
+);
+
+interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+  /** Drops the connection instead of answering */
+  reset?: boolean;
+}
+
+const budgetHeaders = (remaining: number, resetAt: number) => ({
+  'X-RateLimit-Requests-Limit': '1500',
+  'X-RateLimit-Requests-Remaining': String(remaining),
+  'X-RateLimit-Requests-Reset': String(resetAt),
+  'X-RateLimit-Complexity-Limit': '250000',
+  'X-RateLimit-Complexity-Remaining': '240000',
+  'X-RateLimit-Complexity-Reset': String(resetAt),
+  'X-Complexity': '12',
+});
+
+const rateLimited = (headers: Record<string, string> = {}): MockResponse => ({
+  status: 400,
+  headers,
+  body: {
+    errors: [
+      {
+        message: 'Rate limit exceeded',
+        extensions: { type: 'ratelimited', code: 'RATELIMITED', userError: true },
+      },
+    ],
+  },
+});
+
+const ok: MockResponse = { body: { data: { viewer: { id: 'user-1' } } } };
+
+describe('Rate limit middleware', () => {
+  let server: Server;
+  let responses: MockResponse[];
+  let requestCount: number;
+  let apiUrl: string;
+  let sleep: jest.Mock<(ms: number) => Promise<void>>;
+
+  const createClient = () =>
+    new LinearGraphQLClient(new LinearClient({ apiKey: 'lin_api_test', apiUrl }), {
+      rateLimit: { sleep },
+    });
+
+  const query = (client: LinearGraphQLClient) => client.getCurrentUser();
+  const mutation = (client: LinearGraphQLClient) =>
+    client.createIssue({ title: 'Bug', description: '', teamId: 'team-1' });
+
+  beforeEach(async () => {
+    responses = [];
+    requestCount = 0;
+    sleep = jest.fn(async (_ms: number) => undefined);
+    server = createServer((req, res) => {
+      req.resume();
+      req.on('end', () => {
+        requestCount++;
+        const { status = 200, headers = {}, body, reset } = responses.shift() ?? ok;
+        if (reset) {
+          req.socket.destroy();
+          return;
+        }
+        res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+        res.end(JSON.stringify(body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/graphql`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('should record the budgets reported by Linear', async () => {
+    const resetAt = Date.now() + 60_000;
+    responses.push({ ...ok, headers: budgetHeaders(1200, resetAt) });
+    const client = createClient();
+
+    await query(client);
+
+    expect(client.getRateLimitStatus()).toEqual({
+      requests: { limit: 1500, remaining: 1200, resetAt: new Date(resetAt) },
+      complexity: { limit: 250000, remaining: 240000, resetAt: new Date(resetAt) },
+      lastQueryComplexity: 12,
+      queuedRequests: 0,
+      retriedRequests: 0,
+    });
+  });
+
+  it('should retry rate limited requests after the advertised delay', async () => {
+    responses.push(rateLimited({ 'Retry-After': '2' }), rateLimited());
+    const client = createClient();
+
+    await expect(query(client)).resolves.toEqual({ viewer: { id: 'user-1' } });
+
+    expect(requestCount).toBe(3);
+    expect(sleep).toHaveBeenCalledTimes(2);
+    expect(sleep.mock.calls[0][0]).toBe(2000);
+    // Jittered backoff of the second attempt: between 500 and 1000ms
+    expect(sleep.mock.calls[1][0]).toBeGreaterThanOrEqual(500);
+    expect(sleep.mock.calls[1][0]).toBeLessThanOrEqual(1000);
+    expect(client.getRateLimitStatus().retriedRequests).toBe(2);
+  });
+
+  it('should give up on transient failures after the retries are used up', async () => {
+    responses.push(
+      ...Array.from({ length: 4 }, () => ({ status: 503, body: { error: 'Service Unavailable' } }))
+    );
+    const client = createClient();
+
+    await expect(query(client)).rejects.toThrow('GraphQL operation failed');
+
+    expect(requestCount).toBe(4);
+    expect(sleep).toHaveBeenCalledTimes(3);
+  });
+
+  it('should retry queries whose connection was dropped', async () => {
+    responses.push({ reset: true });
+    const client = createClient();
+
+    await expect(query(client)).resolves.toEqual({ viewer: { id: 'user-1' } });
+    expect(requestCount).toBe(2);
+  });
+
+  it('should not resend mutations Linear may already have applied', async () => {
+    responses.push({ status: 502, body: { error: 'Bad Gateway' } }, { reset: true });
+    const client = createClient();
+
+    await expect(mutation(client)).rejects.toThrow('GraphQL operation failed');
+    await expect(mutation(client)).rejects.toThrow('GraphQL operation failed');
+
+    expect(requestCount).toBe(2);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('should retry rate limited mutations', async () => {
+    responses.push(rateLimited(), {
+      body: { data: { issueCreate: { success: true, issue: { id: 'issue-1' } } } },
+    });
+    const client = createClient();
+
+    await expect(mutation(client)).resolves.toMatchObject({ issueCreate: { success: true } });
+    expect(requestCount).toBe(2);
+  });
+
+  it('should not retry requests that can never succeed', async () => {
+    responses.push({
+      status: 400,
+      body: {
+        errors: [{ message: 'Argument Validation Error', extensions: { type: 'invalid input' } }],
+      },
+    });
+    const client = createClient();
+
+    await expect(query(client)).rejects.toBeInstanceOf(ValidationError);
+    expect(requestCount).toBe(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('should fail right away when the rate limit resets too late', async () => {
+    responses.push(
+      rateLimited({
+        'X-RateLimit-Requests-Remaining': '0',
+        'X-RateLimit-Requests-Reset': String(Date.now() + 30 * 60_000),
+      })
+    );
+    const client = createClient();
+
+    const error = await query(client).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error.details.retryAfterMs).toBeGreaterThan(29 * 60_000);
+    expect(requestCount).toBe(1);
+  });
+
+  it('should hold requests back while the budget is nearly exhausted', async () => {
+    responses.push({ ...ok, headers: budgetHeaders(2, Date.now() + 10_000) });
+    const client = createClient();
+
+    await query(client);
+    expect(sleep).not.toHaveBeenCalled();
+
+    await query(client);
+    expect(sleep).toHaveBeenCalledTimes(1);
+    expect(sleep.mock.calls[0][0]).toBeGreaterThan(9_000);
+    expect(sleep.mock.calls[0][0]).toBeLessThanOrEqual(10_000);
+  });
+
+  it('should report the budgets through linear_rate_limit_status', async () => {
+    responses.push({ ...ok, headers: budgetHeaders(1200, Date.now() + 60_000) });
+    const client = createClient();
+    const auth = new LinearAuth();
+    jest.spyOn(auth, 'isAuthenticated').mockReturnValue(true);
+    jest.spyOn(auth, 'ensureValidToken').mockResolvedValue(undefined);
+    const handler = new RateLimitHandler(auth, client);
+
+    expect(JSON.parse((await handler.handleRateLimitStatus({})).content[0].text)).toMatchObject({
+      note: 'No request has been sent to Linear yet',
+    });
+
+    await query(client);
+    const status = JSON.parse((await handler.handleRateLimitStatus({})).content[0].text);
+    expect(status.requests).toMatchObject({ limit: 1500, remaining: 1200 });
+    expect(status.note).toBeUndefined();
+  });
+});
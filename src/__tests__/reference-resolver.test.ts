@@ -0,0 +1,180 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { LinearClient } from '@linear/sdk';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { LinearAuth } from '../auth';
+import { LinearGraphQLClient } from '../graphql/client';
+import { IssueHandler } from '../features/issues/handlers/issue.handler';
+import { ReferenceResolver } from '../core/resolvers/reference.resolver';
+import { ValidationError } from '../core/errors/linear.errors';
+
+const TEAM_ID = '6c3f1a52-1d4e-4b8a-9a3e-2f1d0c9b8a71';
+const STATE_ID = '0b2a4c6e-8d1f-4a3b-9c5d-7e9f1a3b5c7d';
+const USER_ID = '1f3e5d7c-9b2a-4c6e-8d0f-2a4c6e8d0f1b';
+const LABEL_ID = '2e4d6c8b-0a1f-4e3d-9c2b-8a7f6e5d4c3b';
+const PROJECT_ID = '3d5c7b9a-1e2f-4a4b-8c6d-0e1f2a3b4c5d';
+
+const responses: Record<string, unknown> = {
+  'query GetTeams': {
+    teams: {
+      nodes: [
+        {
+          id: TEAM_ID,
+          key: 'ENG',
+          name: 'Engineering',
+          states: { nodes: [{ id: STATE_ID, name: 'In Progress' }] },
+          labels: { nodes: [] },
+        },
+      ],
+    },
+  },
+  'query GetUser {': { viewer: { id: USER_ID, name: 'Ada', email: 'ada@example.com' } },
+  'query GetUsers': {
+    users: {
+      nodes: [
+        { id: USER_ID, name: 'Ada', displayName: 'ada', email: 'ada@example.com', active: true },
+        { id: 'user-2', name: 'Alan', displayName: 'alan', email: 'alan@example.com', active: true },
+        { id: 'user-3', name: 'Alan', displayName: 'turing', email: 'turing@example.com', active: true },
+      ],
+    },
+  },
+  'query GetLabels': {
+    issueLabels: {
+      nodes: [
+        { id: LABEL_ID, name: 'Bug', team: null },
+        { id: 'label-2', name: 'Feature', team: { id: 'other-team' } },
+      ],
+    },
+  },
+  'query SearchProjects': { projects: { nodes: [{ id: PROJECT_ID, name: 'Roadmap' }] } },
+  'mutation CreateIssue': {
+    issueCreate: { success: true, issue: { id: 'issue-1', identifier: 'ENG-1', title: 'Crash', url: '' } },
+  },
+};
+
+describe('ReferenceResolver', () => {
+  let rawRequest: jest.Mock<(query: string, variables?: unknown) => Promise<{ data: unknown }>>;
+  let client: LinearGraphQLClient;
+  let resolver: ReferenceResolver;
+
+  beforeEach(() => {
+    rawRequest = jest.fn(async (query: string) => ({
+      data: Object.entries(responses).find(([operation]) => query.includes(operation))?.[1] ?? {},
+    }));
+    client = new LinearGraphQLClient({ client: { rawRequest } } as unknown as LinearClient);
+    resolver = new ReferenceResolver(client);
+  });
+
+  it('should pass ids through without a lookup', async () => {
+    const input = { teamId: TEAM_ID, stateId: STATE_ID, assigneeId: USER_ID, labelIds: [LABEL_ID] };
+
+    await expect(resolver.resolveIssueReferences(input)).resolves.toEqual(input);
+    expect(rawRequest).not.toHaveBeenCalled();
+  });
+
+  it('should resolve keys, names, emails and "me"', async () => {
+    await expect(
+      resolver.resolveIssueReferences({
+        teamId: 'eng',
+        stateId: 'in progress',
+        assigneeId: 'me',
+        labelIds: ['Bug'],
+        projectId: 'Roadmap',
+      })
+    ).resolves.toEqual({
+      teamId: TEAM_ID,
+      stateId: STATE_ID,
+      assigneeId: USER_ID,
+      labelIds: [LABEL_ID],
+      projectId: PROJECT_ID,
+    });
+    await expect(resolver.resolveUser('alan@example.com')).resolves.toBe('user-2');
+  });
+
+  it('should only resolve labels usable by the team', async () => {
+    await expect(resolver.resolveLabels(['Feature'], TEAM_ID)).rejects.toThrow(
+      'No label "Feature" found'
+    );
+  });
+
+  it('should page through the users of the workspace', async () => {
+    const user = (id: string, name: string) => ({
+      id,
+      name,
+      displayName: name.toLowerCase(),
+      email: `${name.toLowerCase()}@example.com`,
+      active: true,
+    });
+    rawRequest.mockImplementation(async (query: string, variables?: any) => {
+      const pages = [
+        { pageInfo: { hasNextPage: true, endCursor: 'cursor-1' }, nodes: [user('user-1', 'Ada')] },
+        { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [user('user-2', 'Grace')] },
+      ];
+      return { data: { users: pages[variables.after === 'cursor-1' ? 1 : 0] } };
+    });
+
+    await expect(resolver.resolveUser('grace')).resolves.toBe('user-2');
+    expect(rawRequest.mock.calls.map(([, variables]) => variables)).toEqual([
+      { first: 250, after: null },
+      { first: 250, after: 'cursor-1' },
+    ]);
+  });
+
+  it('should tell when not every user could be searched', async () => {
+    rawRequest.mockImplementation(async () => ({
+      data: { users: { pageInfo: { hasNextPage: true, endCursor: 'next' }, nodes: [] } },
+    }));
+
+    await expect(resolver.resolveUser('Grace')).rejects.toThrow(
+      'No user "Grace" found. Not every user of the workspace was searched, pass its id instead.'
+    );
+    expect(rawRequest).toHaveBeenCalledTimes(20);
+  });
+
+  it('should reject ambiguous references with the candidates', async () => {
+    const error = await resolver.resolveUser('Alan').catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toContain('"Alan" matches several users');
+    expect(error.details).toEqual({
+      field: 'assigneeId',
+      suggestions: ['Alan <alan@example.com>: user-2', 'Alan <turing@example.com>: user-3'],
+    });
+  });
+
+  it('should suggest close matches for unknown references', async () => {
+    const error = await resolver
+      .resolveIssueReferences({ teamId: 'ENG', stateId: 'In Progres' }, { path: 'issues[1]' })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toBe(
+      'No state in team ENG "In Progres" found. Did you mean: In Progress?'
+    );
+    expect(error.details.field).toBe('issues[1].stateId');
+  });
+
+  it('should report unresolvable references as invalid params', async () => {
+    const auth = new LinearAuth();
+    jest.spyOn(auth, 'isAuthenticated').mockReturnValue(true);
+    jest.spyOn(auth, 'ensureValidToken').mockResolvedValue(undefined);
+    const handler = new IssueHandler(auth, client);
+
+    await handler.handleCreateIssue({
+      title: 'Crash',
+      description: 'Crashes on start',
+      teamId: 'ENG',
+      assigneeId: 'me',
+    });
+    const [, variables] = rawRequest.mock.calls.find(([query]) =>
+      query.includes('mutation CreateIssue')
+    )!;
+    expect(variables).toMatchObject({ input: { teamId: TEAM_ID, assigneeId: USER_ID } });
+
+    const error = await handler
+      .handleCreateIssue({ title: 'Crash', description: 'Crashes on start', teamId: 'OPS' })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.code).toBe(ErrorCode.InvalidParams);
+    expect(error.data).toMatchObject({ kind: 'validation', field: 'teamId' });
+  });
+});
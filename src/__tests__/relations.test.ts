@@ -0,0 +1,156 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { LinearClient } from '@linear/sdk';
+import { LinearAuth } from '../auth';
+import { LinearGraphQLClient } from '../graphql/client';
+import { RelationHandler } from '../features/relations/handlers/relation.handler';
+
+const uuid = (index: number) => `00000000-0000-4000-8000-${String(index).padStart(12, '0')}`;
+
+const issue = (index: number) => ({
+  id: uuid(index),
+  identifier: `ENG-${index}`,
+  title: `Issue ${index}`,
+});
+
+/** Relations as stored by Linear: ENG-3 blocks ENG-2, which blocks ENG-1, which blocks ENG-3 */
+const relations = [
+  { id: 'relation-1', type: 'blocks', issue: 2, relatedIssue: 1 },
+  { id: 'relation-2', type: 'blocks', issue: 3, relatedIssue: 2 },
+  { id: 'relation-3', type: 'blocks', issue: 1, relatedIssue: 3 },
+  { id: 'relation-4', type: 'blocks', issue: 4, relatedIssue: 3 },
+  { id: 'relation-5', type: 'blocks', issue: 5, relatedIssue: 4 },
+  { id: 'relation-6', type: 'duplicate', issue: 1, relatedIssue: 5 },
+];
+
+describe('Issue relations', () => {
+  let rawRequest: jest.Mock<(query: string, variables?: any) => Promise<{ data: unknown }>>;
+  let handler: RelationHandler;
+
+  beforeEach(() => {
+    rawRequest = jest.fn(async (query: string, variables?: any) => {
+      if (query.includes('query GetIssueReferences')) {
+        const nodes = variables.filter.or
+          .filter((filter: any) => filter.team?.key.eq === 'ENG' && filter.number.eq <= 5)
+          .map((filter: any) => ({ ...issue(filter.number.eq), team: { id: 'team-1' } }));
+        return { data: { issues: { nodes } } };
+      }
+      if (query.includes('query GetIssueRelations')) {
+        const nodes = (variables.ids as string[]).map((id) => {
+          const index = Number(id.slice(-12));
+          return {
+            ...issue(index),
+            relations: {
+              nodes: relations
+                .filter((relation) => relation.issue === index)
+                .map(({ id, type, relatedIssue }) => ({
+                  id,
+                  type,
+                  relatedIssue: issue(relatedIssue),
+                })),
+            },
+            inverseRelations: {
+              nodes: relations
+                .filter((relation) => relation.relatedIssue === index)
+                .map(({ id, type, issue: from }) => ({ id, type, issue: issue(from) })),
+            },
+          };
+        });
+        return { data: { issues: { nodes } } };
+      }
+      if (query.includes('mutation CreateIssueRelation')) {
+        const { issueId, relatedIssueId, type } = variables.input;
+        return {
+          data: {
+            issueRelationCreate: {
+              success: true,
+              issueRelation: {
+                id: 'relation-new',
+                type,
+                issue: issue(Number(issueId.slice(-12))),
+                relatedIssue: issue(Number(relatedIssueId.slice(-12))),
+              },
+            },
+          },
+        };
+      }
+      return { data: {} };
+    });
+
+    const auth = new LinearAuth();
+    jest.spyOn(auth, 'isAuthenticated').mockReturnValue(true);
+    jest.spyOn(auth, 'ensureValidToken').mockResolvedValue(undefined);
+    handler = new RelationHandler(
+      auth,
+      new LinearGraphQLClient({ client: { rawRequest } } as unknown as LinearClient)
+    );
+  });
+
+  it('should store "blocked by" as the other issue blocking this one', async () => {
+    const response = await handler.handleCreateIssueRelation({
+      issueId: 'ENG-1',
+      relatedIssueId: 'ENG-2',
+      type: 'blocked_by',
+    });
+
+    const [, variables] = rawRequest.mock.calls.find(([query]) =>
+      query.includes('mutation CreateIssueRelation')
+    )!;
+    expect(variables).toEqual({
+      input: { issueId: uuid(2), relatedIssueId: uuid(1), type: 'blocks' },
+    });
+    expect(response.content[0].text).toBe('Created relation relation-new: ENG-1 blocked by ENG-2');
+  });
+
+  it('should list relations in both directions', async () => {
+    const response = await handler.handleGetIssueRelations({ issueId: 'ENG-5' });
+
+    expect(JSON.parse(response.content[0].text)).toEqual({
+      issue: issue(5),
+      relations: [
+        { id: 'relation-5', type: 'blocks', issue: issue(4) },
+        { id: 'relation-6', type: 'duplicated_by', issue: issue(1) },
+      ],
+    });
+  });
+
+  it('should follow blocking relations and report cycles', async () => {
+    const response = await handler.handleGetDependencyChain({ issueId: 'ENG-1' });
+
+    const result = JSON.parse(response.content[0].text);
+    const chain = result.chain.map(({ identifier, depth, blockedBy }: any) => [
+      identifier,
+      depth,
+      blockedBy,
+    ]);
+    expect(chain).toEqual([
+      ['ENG-1', 0, ['ENG-2']],
+      ['ENG-2', 1, ['ENG-3']],
+      ['ENG-3', 2, ['ENG-1', 'ENG-4']],
+      ['ENG-4', 3, ['ENG-5']],
+      ['ENG-5', 4, []],
+    ]);
+    expect(result.cycles).toEqual([['ENG-1', 'ENG-2', 'ENG-3', 'ENG-1']]);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('should stop at the maximum depth', async () => {
+    const response = await handler.handleGetDependencyChain({
+      issueId: 'ENG-5',
+      direction: 'blocks',
+      maxDepth: 1,
+    });
+
+    const result = JSON.parse(response.content[0].text);
+    expect(result.chain.map(({ identifier, blocks }: any) => [identifier, blocks])).toEqual([
+      ['ENG-5', ['ENG-4']],
+      ['ENG-4', ['ENG-3']],
+    ]);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('should reject a depth out of range', async () => {
+    await expect(
+      handler.handleGetDependencyChain({ issueId: 'ENG-1', maxDepth: 100 })
+    ).rejects.toThrow('maxDepth must be a whole number between 1 and 50');
+  });
+});
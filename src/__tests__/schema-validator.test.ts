@@ -0,0 +1,87 @@
+import { describe, it, expect } from '@jest/globals';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  findSchemaViolations,
+  validateToolArguments,
+} from '../core/tools/schema.validator';
+import { toolSchemas } from '../core/types/tool.types';
+
+describe('Tool argument validation', () => {
+  const createIssues = toolSchemas['linear_create_issues'].inputSchema;
+  const editIssue = toolSchemas['linear_edit_issue'].inputSchema;
+
+  it('should accept valid arguments', () => {
+    expect(
+      findSchemaViolations(createIssues, {
+        issues: [{ title: 'Bug', description: '', teamId: 'team-1', priority: 0 }],
+      })
+    ).toEqual([]);
+  });
+
+  it('should name the path of nested violations', () => {
+    expect(
+      findSchemaViolations(createIssues, {
+        issues: [
+          { title: 'Bug', description: 'Broken', teamId: 'team-1' },
+          { title: 7, description: 'Broken' },
+        ],
+      })
+    ).toEqual([
+      { path: 'issues[1].teamId', message: 'is required' },
+      { path: 'issues[1].title', message: 'must be of type string, got integer' },
+    ]);
+  });
+
+  it('should report missing required arguments', () => {
+    expect(findSchemaViolations(editIssue, {})).toEqual([
+      { path: 'issueId', message: 'is required' },
+    ]);
+  });
+
+  it('should check enums, item counts and numeric bounds', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        actor: { type: 'string', enum: ['user', 'application'] },
+        ids: { type: 'array', items: { type: 'string' }, minItems: 1 },
+        priority: { type: 'integer', minimum: 0, maximum: 4 },
+      },
+    };
+
+    expect(findSchemaViolations(schema, { actor: 'bot', ids: [], priority: 5 })).toEqual([
+      { path: 'actor', message: 'must be one of "user", "application"' },
+      { path: 'ids', message: 'must contain at least 1 items' },
+      { path: 'priority', message: 'must be at most 4' },
+    ]);
+  });
+
+  it('should ignore optional arguments sent as null', () => {
+    expect(
+      findSchemaViolations(editIssue, { issueId: 'issue-1', priority: null })
+    ).toEqual([]);
+  });
+
+  it('should throw InvalidParams with the violations attached', () => {
+    let error: unknown;
+    try {
+      validateToolArguments('linear_edit_issue', editIssue, { issueId: ['issue-1'] });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(McpError);
+    expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+    expect((error as McpError).message).toContain(
+      'Invalid arguments for linear_edit_issue: issueId must be of type string, got array'
+    );
+    expect((error as McpError).data).toEqual({
+      errors: [{ path: 'issueId', message: 'must be of type string, got array' }],
+    });
+  });
+
+  it('should treat missing arguments as an empty object', () => {
+    expect(() =>
+      validateToolArguments('linear_get_teams', toolSchemas['linear_get_teams'].inputSchema, undefined)
+    ).not.toThrow();
+  });
+});
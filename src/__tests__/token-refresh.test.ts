@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { LinearAuth } from '../auth';
+import { LinearGraphQLClient } from '../graphql/client';
+import { BaseHandler } from '../core/handlers/base.handler';
+import { LinearSession } from '../core/session/linear.session';
+
+/**
+ * Minimal stand-in for Linear's OAuth token endpoint.
+ */
+class FakeTokenEndpoint {
+  requests: URLSearchParams[] = [];
+  status = 200;
+  private server?: Server;
+
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        this.requests.push(new URLSearchParams(body));
+        // Respond slowly so concurrent refreshes overlap
+        setTimeout(() => {
+          res.writeHead(this.status, { 'Content-Type': 'application/json' });
+          res.end(
+            JSON.stringify(
+              this.status === 200
+                ? {
+                    access_token: `access-token-${this.requests.length}`,
+                    refresh_token: `refresh-token-${this.requests.length}`,
+                    expires_in: 3600,
+                  }
+                : { error: 'invalid_grant' }
+            )
+          );
+        }, 50);
+      });
+    });
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server!.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server?.close(() => resolve()));
+  }
+}
+
+class TestHandler extends BaseHandler {
+  getClient(): Promise<LinearGraphQLClient> {
+    return this.verifyAuth();
+  }
+}
+
+const oauthConfig = {
+  type: 'oauth' as const,
+  clientId: 'test-client-id',
+  clientSecret: 'test-client-secret',
+  redirectUri: 'http://localhost:3000/callback',
+};
+
+const expiredToken = {
+  accessToken: 'expired-access-token',
+  refreshToken: 'refresh-token-0',
+  expiresAt: Date.now() - 1000,
+};
+
+describe('OAuth token refresh', () => {
+  let endpoint: FakeTokenEndpoint;
+  let tokenUrl: string;
+
+  beforeEach(async () => {
+    endpoint = new FakeTokenEndpoint();
+    tokenUrl = await endpoint.start();
+  });
+
+  afterEach(async () => {
+    await endpoint.stop();
+  });
+
+  it('should send a single request for concurrent refreshes', async () => {
+    const auth = new LinearAuth({ tokenUrl });
+    auth.initialize(oauthConfig);
+    auth.setTokenData(expiredToken);
+
+    await Promise.all([
+      auth.refreshAccessToken(),
+      auth.refreshAccessToken(),
+      auth.refreshAccessToken(),
+    ]);
+
+    expect(endpoint.requests).toHaveLength(1);
+    expect(endpoint.requests[0].get('refresh_token')).toBe('refresh-token-0');
+    expect(auth.needsTokenRefresh()).toBe(false);
+  });
+
+  it('should refresh again once the previous refresh settled', async () => {
+    const auth = new LinearAuth({ tokenUrl });
+    auth.initialize(oauthConfig);
+    auth.setTokenData(expiredToken);
+
+    await auth.refreshAccessToken();
+    await auth.refreshAccessToken();
+
+    expect(endpoint.requests).toHaveLength(2);
+    expect(endpoint.requests[1].get('refresh_token')).toBe('refresh-token-1');
+  });
+
+  it('should reject every waiter when the refresh fails', async () => {
+    endpoint.status = 400;
+    const auth = new LinearAuth({ tokenUrl });
+    auth.initialize(oauthConfig);
+    auth.setTokenData(expiredToken);
+
+    const results = await Promise.allSettled([
+      auth.refreshAccessToken(),
+      auth.refreshAccessToken(),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+    expect(endpoint.requests).toHaveLength(1);
+  });
+
+  it('should await the refresh in handlers and propagate the new client', async () => {
+    const auth = new LinearAuth({ tokenUrl });
+    auth.initialize(oauthConfig);
+    auth.setTokenData(expiredToken);
+
+    const graphqlClient = new LinearGraphQLClient(auth.getClient());
+    auth.onClientChange((client) => client && graphqlClient.setLinearClient(client));
+    const handler = new TestHandler(auth, graphqlClient);
+
+    const clients = await Promise.all([
+      handler.getClient(),
+      handler.getClient(),
+      handler.getClient(),
+    ]);
+
+    expect(endpoint.requests).toHaveLength(1);
+    expect(clients.every((client) => client === graphqlClient)).toBe(true);
+    expect(graphqlClient['linearClient']).toBe(auth.getClient());
+  });
+
+  it('should hand the first client of a session to its handlers', async () => {
+    const session = new LinearSession();
+    await session.ready;
+
+    session.auth.initialize(oauthConfig);
+    session.auth.setTokenData({ ...expiredToken, expiresAt: Date.now() + 3600000 });
+
+    const { handler } = session.handlerFactory.getHandlerForTool('linear_get_teams');
+    const client = await (handler as unknown as TestHandler)['verifyAuth']();
+
+    expect(client['linearClient']).toBe(session.auth.getClient());
+  });
+});
+
+describe('Scope checks', () => {
+  it('should refuse write tools when the granted scopes are read-only', async () => {
+    const session = new LinearSession();
+    await session.ready;
+
+    session.auth.initialize(oauthConfig);
+    session.auth.setTokenData({
+      ...expiredToken,
+      expiresAt: Date.now() + 3600000,
+      scopes: ['read'],
+    });
+
+    const { handler, method } = session.handlerFactory.getHandlerForTool('linear_create_issue');
+    await expect(
+      (handler as any)[method]({ title: 'Test', teamId: 'team-1' })
+    ).rejects.toThrow('was not granted the "issues:create" scope');
+
+    const teams = session.handlerFactory.getHandlerForTool('linear_get_teams');
+    await expect(
+      (teams.handler as unknown as TestHandler)['verifyAuth']()
+    ).resolves.toBeDefined();
+  });
+});
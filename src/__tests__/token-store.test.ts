@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtemp, readFile, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileTokenStore } from '../core/auth/file-token.store';
+import {
+  createTokenStore,
+  MemoryTokenStore,
+  StoredCredentials,
+} from '../core/auth/token.store';
+
+const credentials: StoredCredentials = {
+  config: {
+    type: 'oauth',
+    clientId: 'test-client-id',
+    clientSecret: 'test-client-secret',
+    redirectUri: 'http://localhost:3000/callback',
+  },
+  tokenData: {
+    accessToken: 'secret-access-token',
+    refreshToken: 'secret-refresh-token',
+    expiresAt: 1700000000000,
+  },
+};
+
+describe('FileTokenStore', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'linear-tokens-'));
+    path = join(dir, 'nested', 'tokens.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should round-trip credentials', async () => {
+    const store = new FileTokenStore(path);
+    await store.save('default', credentials);
+
+    await expect(new FileTokenStore(path).load('default')).resolves.toEqual(credentials);
+    await expect(store.load('other')).resolves.toBeUndefined();
+  });
+
+  it('should encrypt the stored tokens', async () => {
+    await new FileTokenStore(path, 'passphrase').save('default', credentials);
+
+    const contents = await readFile(path, 'utf8');
+    expect(contents).not.toContain('secret-access-token');
+    expect(contents).not.toContain('test-client-secret');
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+  });
+
+  it('should generate a private key file without a passphrase', async () => {
+    await new FileTokenStore(path).save('default', credentials);
+
+    expect((await stat(`${path}.key`)).mode & 0o777).toBe(0o600);
+  });
+
+  it('should fail to decrypt with a different passphrase', async () => {
+    await new FileTokenStore(path, 'passphrase').save('default', credentials);
+
+    await expect(new FileTokenStore(path, 'other').load('default')).rejects.toThrow(
+      'Unable to decrypt'
+    );
+  });
+
+  it('should keep concurrent writes', async () => {
+    const store = new FileTokenStore(path);
+    await Promise.all([
+      store.save('a', credentials),
+      store.save('b', credentials),
+      store.save('c', credentials),
+    ]);
+
+    for (const key of ['a', 'b', 'c']) {
+      await expect(store.load(key)).resolves.toEqual(credentials);
+    }
+  });
+
+  it('should delete entries', async () => {
+    const store = new FileTokenStore(path);
+    await store.save('default', credentials);
+    await store.delete('default');
+
+    await expect(store.load('default')).resolves.toBeUndefined();
+  });
+});
+
+describe('createTokenStore', () => {
+  it('should default to the file store', () => {
+    expect(createTokenStore({})).toBeInstanceOf(FileTokenStore);
+  });
+
+  it('should support memory and disabled stores', () => {
+    expect(createTokenStore({ LINEAR_TOKEN_STORE: 'memory' })).toBeInstanceOf(MemoryTokenStore);
+    expect(createTokenStore({ LINEAR_TOKEN_STORE: 'none' })).toBeUndefined();
+  });
+
+  it('should reject unknown stores', () => {
+    expect(() => createTokenStore({ LINEAR_TOKEN_STORE: 'redis' })).toThrow(
+      'Unsupported token store'
+    );
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { LinearAuth } from '../auth';
+import { HandlerFactory } from '../core/handlers/handler.factory';
+import { ToolPolicy } from '../core/tools/tool.policy';
+import { loadServerConfig } from '../core/config/server.config';
+import { toolSchemas } from '../core/types/tool.types';
+
+const mutatingTools = [
+  'linear_create_issue',
+  'linear_create_issues',
+  'linear_edit_issue',
+  'linear_bulk_update_issues',
+  'linear_delete_issue',
+  'linear_delete_issues',
+  'linear_create_project_with_issues',
+  'linear_create_comment',
+  'linear_update_comment',
+  'linear_delete_comment',
+  'linear_resolve_comment',
+  'linear_unresolve_comment',
+  'linear_create_issue_relation',
+  'linear_delete_issue_relation',
+  'linear_create_attachment',
+  'linear_update_attachment',
+  'linear_delete_attachment',
+  'linear_link_pull_request',
+  'linear_upload_file',
+  'linear_logout',
+  'linear_create_customer_need_from_attachment',
+  'linear_create_project_milestone',
+  'linear_update_project_milestone',
+  'linear_delete_project_milestone',
+];
+
+describe('ToolPolicy', () => {
+  it('should tag every tool as read or write', () => {
+    Object.values(toolSchemas).forEach((tool) => {
+      expect(typeof tool.annotations.readOnlyHint).toBe('boolean');
+    });
+  });
+
+  it('should list every tool by default', () => {
+    const policy = new ToolPolicy();
+
+    expect(policy.listTools()).toHaveLength(Object.keys(toolSchemas).length);
+    expect(policy.isAllowed('linear_create_issue')).toBe(true);
+  });
+
+  it('should hide mutating tools in read-only mode', () => {
+    const names = new ToolPolicy({ readOnly: true }).listTools().map((tool) => tool.name);
+
+    mutatingTools.forEach((name) => expect(names).not.toContain(name));
+    expect(names).toEqual(
+      expect.arrayContaining(['linear_search_issues', 'linear_get_issue', 'linear_get_teams'])
+    );
+  });
+
+  it('should reject calls to mutating tools in read-only mode', () => {
+    const factory = new HandlerFactory(
+      new LinearAuth(),
+      undefined,
+      new ToolPolicy({ readOnly: true })
+    );
+
+    mutatingTools.forEach((name) => {
+      expect(() => factory.getHandlerForTool(name)).toThrow(
+        new McpError(
+          ErrorCode.InvalidRequest,
+          `Tool ${name} modifies Linear data and is disabled in read-only mode`
+        )
+      );
+    });
+    expect(factory.getHandlerForTool('linear_get_issue').method).toBe('handleGetIssue');
+  });
+
+  it('should be enabled through the environment or CLI', () => {
+    expect(loadServerConfig([], {}).readOnly).toBe(false);
+    expect(loadServerConfig([], { LINEAR_READ_ONLY: 'true' }).readOnly).toBe(true);
+    expect(loadServerConfig(['--read-only'], {}).readOnly).toBe(true);
+  });
+});
+
+describe('Tool include/exclude patterns', () => {
+  const toolPrefix = process.env.TOOL_PREFIX;
+
+  afterEach(() => {
+    if (toolPrefix === undefined) {
+      delete process.env.TOOL_PREFIX;
+    } else {
+      process.env.TOOL_PREFIX = toolPrefix;
+    }
+  });
+
+  it('should only expose included tools', () => {
+    const policy = new ToolPolicy({ include: ['linear_get_*', 'linear_search_issues'] });
+    const names = policy.listTools().map((tool) => tool.name);
+
+    expect(names).toContain('linear_get_issue');
+    expect(names).toContain('linear_search_issues');
+    expect(names).not.toContain('linear_search_issues_by_identifier');
+    expect(names).not.toContain('linear_create_issue');
+  });
+
+  it('should hide excluded tools and reject calls to them', () => {
+    const policy = new ToolPolicy({
+      exclude: ['linear_delete_issue', 'linear_create_customer_need_from_attachment'],
+    });
+    const factory = new HandlerFactory(new LinearAuth(), undefined, policy);
+
+    expect(policy.listTools().map((tool) => tool.name)).not.toContain(
+      'linear_create_customer_need_from_attachment'
+    );
+    expect(() => factory.getHandlerForTool('linear_delete_issue')).toThrow(
+      "Tool linear_delete_issue is disabled by the server's tool configuration"
+    );
+    expect(factory.getHandlerForTool('linear_delete_comment').method).toBe('handleCommentDelete');
+  });
+
+  it('should apply exclude patterns after include patterns', () => {
+    const policy = new ToolPolicy({ include: ['linear_*_comment'], exclude: ['linear_delete_*'] });
+
+    expect(policy.isAllowed('linear_create_comment')).toBe(true);
+    expect(policy.isAllowed('linear_delete_comment')).toBe(false);
+  });
+
+  it('should match names without the tool prefix', () => {
+    process.env.TOOL_PREFIX = 'acme';
+    const policy = new ToolPolicy({ exclude: ['linear_delete_*'] });
+
+    expect(policy.isAllowed('acme_linear_delete_issue')).toBe(false);
+    expect(policy.isAllowed('acme_linear_get_issue')).toBe(true);
+  });
+
+  it('should combine with read-only mode', () => {
+    const policy = new ToolPolicy({ readOnly: true, include: ['linear_*_issue'] });
+
+    expect(policy.isAllowed('linear_get_issue')).toBe(true);
+    expect(policy.isAllowed('linear_edit_issue')).toBe(false);
+  });
+});
+
+describe('Tool filter configuration', () => {
+  let dir: string;
+
+  const writeConfig = (content: unknown): string => {
+    dir = mkdtempSync(join(tmpdir(), 'linear-tools-'));
+    const path = join(dir, 'tools.json');
+    writeFileSync(path, typeof content === 'string' ? content : JSON.stringify(content));
+    return path;
+  };
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should default to no patterns', () => {
+    expect(loadServerConfig([], {}).tools).toEqual({ include: [], exclude: [] });
+  });
+
+  it('should read comma separated patterns from the environment', () => {
+    const { tools } = loadServerConfig([], {
+      LINEAR_TOOLS_INCLUDE: 'linear_get_*, linear_search_*',
+      LINEAR_TOOLS_EXCLUDE: 'linear_delete_issues',
+    });
+
+    expect(tools).toEqual({
+      include: ['linear_get_*', 'linear_search_*'],
+      exclude: ['linear_delete_issues'],
+    });
+  });
+
+  it('should read patterns from a JSON file, overridden by the environment', () => {
+    const path = writeConfig({ include: ['linear_get_*'], exclude: ['linear_delete_*'] });
+
+    const { tools } = loadServerConfig(['--tools-config', path], {
+      LINEAR_TOOLS_EXCLUDE: 'linear_create_*',
+    });
+
+    expect(tools).toEqual({ include: ['linear_get_*'], exclude: ['linear_create_*'] });
+  });
+
+  it('should reject malformed configuration files', () => {
+    expect(() =>
+      loadServerConfig([], { LINEAR_TOOLS_CONFIG: writeConfig({ include: 'linear_get_*' }) })
+    ).toThrow('"include" and "exclude" must be arrays of strings');
+    expect(() =>
+      loadServerConfig([], { LINEAR_TOOLS_CONFIG: writeConfig('{not json') })
+    ).toThrow('Unable to read tool configuration');
+  });
+});
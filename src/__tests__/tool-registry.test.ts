@@ -0,0 +1,74 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { LinearAuth } from '../auth';
+import { HandlerFactory } from '../core/handlers/handler.factory';
+import { defineTools, READ_ONLY_TOOL, ToolRegistry } from '../core/tools/tool.registry';
+import { toolRegistry, toolSchemas } from '../core/types/tool.types';
+import { TeamHandler } from '../features/teams/handlers/team.handler';
+
+const teamsTool = {
+  name: 'linear_get_teams',
+  method: 'handleGetTeams' as const,
+  description: 'Get all teams',
+  inputSchema: { type: 'object' as const, properties: {} },
+  annotations: READ_ONLY_TOOL,
+};
+
+describe('ToolRegistry', () => {
+  const toolPrefix = process.env.TOOL_PREFIX;
+
+  afterEach(() => {
+    if (toolPrefix === undefined) {
+      delete process.env.TOOL_PREFIX;
+    } else {
+      process.env.TOOL_PREFIX = toolPrefix;
+    }
+  });
+
+  it('should only register tools that can be dispatched', () => {
+    expect(() => toolRegistry.validate()).not.toThrow();
+  });
+
+  it('should dispatch every listed tool to a handler method', () => {
+    const factory = new HandlerFactory(new LinearAuth());
+
+    Object.keys(toolSchemas).forEach((name) => {
+      const { handler, method } = factory.getHandlerForTool(name);
+      expect(typeof (handler as any)[method]).toBe('function');
+    });
+  });
+
+  it('should share one handler between the tools of a feature', () => {
+    const factory = new HandlerFactory(new LinearAuth());
+
+    expect(factory.getHandlerForTool('linear_create_issue').handler).toBe(
+      factory.getHandlerForTool('linear_get_issue').handler
+    );
+  });
+
+  it('should report tools whose handler method is missing', () => {
+    const registry = new ToolRegistry([
+      defineTools(TeamHandler, [{ ...teamsTool, method: 'handleMissing' as any }]),
+    ]);
+
+    expect(() => registry.validate()).toThrow(
+      'Tools without a handler method: linear_get_teams (TeamHandler.handleMissing)'
+    );
+  });
+
+  it('should reject tools registered twice', () => {
+    expect(
+      () => new ToolRegistry([defineTools(TeamHandler, [teamsTool, teamsTool])])
+    ).toThrow('Tool linear_get_teams is registered more than once');
+  });
+
+  it('should apply the tool prefix to names and descriptions', () => {
+    process.env.TOOL_PREFIX = 'acme';
+    const registry = new ToolRegistry([defineTools(TeamHandler, [teamsTool])]);
+
+    expect(registry.get('acme_linear_get_teams')?.schema).toMatchObject({
+      name: 'acme_linear_get_teams',
+      description: "For 'acme' Linear workspace: Get all teams",
+    });
+    expect(registry.get('linear_get_teams')).toBeUndefined();
+  });
+});
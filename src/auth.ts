@@ -1,5 +1,7 @@
+import { createHash, randomBytes } from 'node:crypto';
 import { LinearClient } from '@linear/sdk';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { TokenStore } from './core/auth/token.store.js';
 
 /**
  * Solution Attempts:
@@ -19,11 +21,59 @@ import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
  * - Status: In Progress - Testing token exchange
  */
 
+/**
+ * Scopes Linear's OAuth server grants.
+ */
+export const LINEAR_OAUTH_SCOPES = [
+  'read',
+  'write',
+  'issues:create',
+  'comments:create',
+  'timeSchedule:write',
+  'admin',
+  'app:assignable',
+  'app:mentionable',
+  'offline_access',
+] as const;
+
+export type LinearScope = typeof LINEAR_OAUTH_SCOPES[number];
+
+/**
+ * Who actions are attributed to: the authorizing user, or the OAuth application.
+ */
+export type OAuthActor = 'user' | 'application';
+
+const DEFAULT_SCOPES: LinearScope[] = ['read', 'write', 'issues:create', 'offline_access'];
+const DEFAULT_ACTOR: OAuthActor = 'application';
+
+/**
+ * Scopes that include narrower ones, e.g. `write` allows creating issues.
+ */
+const IMPLIED_SCOPES: Partial<Record<LinearScope, LinearScope[]>> = {
+  admin: ['write'],
+  write: ['issues:create', 'comments:create'],
+};
+
+/**
+ * Splits a scope list given as an array or a space/comma separated string.
+ */
+export function parseScopeList(scope: unknown): string[] | undefined {
+  if (Array.isArray(scope)) return scope.map(String);
+  if (typeof scope === 'string') return scope.split(/[\s,]+/).filter(Boolean);
+  return undefined;
+}
+
 export interface OAuthConfig {
   type: 'oauth';
   clientId: string;
   clientSecret: string;
   redirectUri: string;
+  /** Use PKCE (S256) for the authorization code flow, defaults to true */
+  usePkce?: boolean;
+  /** Scopes to request, defaults to read, write, issues:create and offline_access */
+  scopes?: LinearScope[];
+  /** Defaults to the OAuth application */
+  actor?: OAuthActor;
 }
 
 export interface PersonalAccessTokenConfig {
@@ -37,17 +87,120 @@ export interface TokenData {
   accessToken: string;
   refreshToken: string;
   expiresAt: number;
+  /** Scopes granted to an OAuth token */
+  scopes?: string[];
+}
+
+export type AuthMode = 'oauth' | 'pat' | 'api_key' | 'none';
+
+/**
+ * Summary of the current authentication state.
+ */
+export interface AuthStatus {
+  mode: AuthMode;
+  authenticated: boolean;
+  /** ISO timestamp the OAuth access token expires at */
+  expiresAt?: string;
+  scopes?: string[];
+}
+
+/**
+ * Outcome of a logout.
+ */
+export interface LogoutResult {
+  /** Whether the OAuth token was revoked with Linear */
+  revoked: boolean;
+  /** Why revoking the token failed, if it did */
+  revokeError?: string;
+}
+
+/**
+ * An authorization request awaiting its OAuth callback.
+ */
+export interface PendingAuthorization {
+  state: string;
+  /** PKCE code verifier sent with the token exchange */
+  codeVerifier?: string;
+  expiresAt: number;
+}
+
+export interface LinearAuthOptions {
+  /** Persists OAuth tokens so sessions survive restarts */
+  tokenStore?: TokenStore;
+  /** Key of this session's entry in the token store */
+  storeKey?: string;
+  /** Base URL of the OAuth token endpoint, defaults to Linear's API */
+  tokenUrl?: string;
 }
 
+/**
+ * Called with the new Linear client, or `undefined` once credentials are dropped.
+ */
+export type ClientChangeListener = (client: LinearClient | undefined) => void;
+
 export class LinearAuth {
   private static readonly OAUTH_AUTH_URL = 'https://linear.app/oauth';
   private static readonly OAUTH_TOKEN_URL = 'https://api.linear.app';
+  private static readonly DEFAULT_STORE_KEY = 'default';
+  private static readonly AUTHORIZATION_TTL = 10 * 60 * 1000; // 10 minutes
   private config?: AuthConfig;
   private tokenData?: TokenData;
+  private pendingAuthorizations = new Map<string, PendingAuthorization>();
   private linearClient?: LinearClient;
+  private refreshPromise?: Promise<void>;
+  private clientListeners: ClientChangeListener[] = [];
 
-  constructor() {}
+  constructor(private readonly options: LinearAuthOptions = {}) {}
 
+  /**
+   * Registers a listener called whenever the Linear client is replaced,
+   * e.g. after a code exchange or token refresh.
+   * @returns Function removing the listener
+   */
+  public onClientChange(listener: ClientChangeListener): () => void {
+    this.clientListeners.push(listener);
+    return () => {
+      this.clientListeners = this.clientListeners.filter((l) => l !== listener);
+    };
+  }
+
+  /**
+   * Restores OAuth credentials from the token store, if any were saved.
+   * @returns Whether stored credentials were found and loaded
+   */
+  public async loadStoredTokens(): Promise<boolean> {
+    const { tokenStore } = this.options;
+    if (!tokenStore) return false;
+
+    const stored = await tokenStore.load(this.storeKey);
+    if (!stored) return false;
+
+    // Credentials belong to a different OAuth application than the configured one
+    if (
+      this.config?.type === 'oauth' &&
+      this.config.clientId !== stored.config.clientId
+    ) {
+      return false;
+    }
+
+    this.config = this.config ?? stored.config;
+    stored.pendingAuthorizations?.forEach((pending) => {
+      this.pendingAuthorizations.set(pending.state, pending);
+    });
+
+    if (!stored.tokenData) return false;
+
+    this.tokenData = stored.tokenData;
+    this.setClient(new LinearClient({
+      accessToken: stored.tokenData.accessToken,
+    }));
+    return true;
+  }
+
+  /**
+   * Starts an authorization request and returns the URL the user has to visit.
+   * The request's state (and PKCE verifier) is kept until the callback arrives.
+   */
   public getAuthorizationUrl(): string {
     if (!this.config || this.config.type !== 'oauth') {
       throw new McpError(
@@ -56,20 +209,45 @@ export class LinearAuth {
       );
     }
 
+    const pending: PendingAuthorization = {
+      state: this.generateState(),
+      expiresAt: Date.now() + LinearAuth.AUTHORIZATION_TTL,
+    };
+
     const params = new URLSearchParams({
       client_id: this.config.clientId,
       redirect_uri: this.config.redirectUri,
       response_type: 'code',
-      scope: 'read,write,issues:create,offline_access',
-      actor: 'application', // Enable OAuth Actor Authorization
-      state: this.generateState(),
+      scope: this.requestedScopes.join(','),
+      state: pending.state,
       access_type: 'offline',
     });
+    if ((this.config.actor ?? DEFAULT_ACTOR) === 'application') {
+      params.set('actor', 'application'); // Enable OAuth Actor Authorization
+    }
+
+    if (this.config.usePkce !== false) {
+      pending.codeVerifier = randomBytes(32).toString('base64url');
+      params.set(
+        'code_challenge',
+        createHash('sha256').update(pending.codeVerifier).digest('base64url')
+      );
+      params.set('code_challenge_method', 'S256');
+    }
+
+    this.prunePendingAuthorizations();
+    this.pendingAuthorizations.set(pending.state, pending);
+    void this.persistTokens();
 
     return `${LinearAuth.OAUTH_AUTH_URL}/authorize?${params.toString()}`;
   }
 
-  public async handleCallback(code: string): Promise<void> {
+  /**
+   * Exchanges the authorization code for tokens.
+   * @param code Authorization code from the OAuth callback
+   * @param state State from the OAuth callback, must match a pending request
+   */
+  public async handleCallback(code: string, state: string): Promise<void> {
     if (!this.config || this.config.type !== 'oauth') {
       throw new McpError(
         ErrorCode.InvalidRequest,
@@ -77,6 +255,8 @@ export class LinearAuth {
       );
     }
 
+    const pending = await this.consumePendingAuthorization(state);
+
     try {
       const params = new URLSearchParams({
         grant_type: 'authorization_code',
@@ -86,8 +266,11 @@ export class LinearAuth {
         code,
         access_type: 'offline'
       });
+      if (pending.codeVerifier) {
+        params.set('code_verifier', pending.codeVerifier);
+      }
 
-      const response = await fetch(`${LinearAuth.OAUTH_TOKEN_URL}/oauth/token`, {
+      const response = await fetch(`${this.tokenUrl}/oauth/token`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
@@ -106,20 +289,46 @@ export class LinearAuth {
         accessToken: data.access_token,
         refreshToken: data.refresh_token,
         expiresAt: Date.now() + data.expires_in * 1000,
+        // Assume the requested scopes were granted if the response omits them
+        scopes: parseScopeList(data.scope) ?? this.requestedScopes,
       };
 
-      this.linearClient = new LinearClient({
+      this.setClient(new LinearClient({
         accessToken: this.tokenData.accessToken,
-      });
+      }));
     } catch (error) {
       throw new McpError(
         ErrorCode.InternalError,
         `OAuth token exchange failed: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
     }
+    await this.persistTokens();
+  }
+
+  /**
+   * Refreshes the OAuth access token. Concurrent calls share a single
+   * request to the token endpoint.
+   */
+  public refreshAccessToken(): Promise<void> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.requestTokenRefresh().finally(() => {
+        this.refreshPromise = undefined;
+      });
+    }
+    return this.refreshPromise;
   }
 
-  public async refreshAccessToken(): Promise<void> {
+  /**
+   * Refreshes the access token if it is about to expire.
+   * Call before using the client.
+   */
+  public async ensureValidToken(): Promise<void> {
+    if (this.needsTokenRefresh()) {
+      await this.refreshAccessToken();
+    }
+  }
+
+  private async requestTokenRefresh(): Promise<void> {
     if (!this.config || this.config.type !== 'oauth' || !this.tokenData?.refreshToken) {
       throw new McpError(
         ErrorCode.InvalidRequest,
@@ -135,7 +344,7 @@ export class LinearAuth {
         refresh_token: this.tokenData.refreshToken
       });
 
-      const response = await fetch(`${LinearAuth.OAUTH_TOKEN_URL}/oauth/token`, {
+      const response = await fetch(`${this.tokenUrl}/oauth/token`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
@@ -152,19 +361,22 @@ export class LinearAuth {
       const data = await response.json();
       this.tokenData = {
         accessToken: data.access_token,
-        refreshToken: data.refresh_token,
+        // Keep the current refresh token if the server doesn't rotate it
+        refreshToken: data.refresh_token ?? this.tokenData.refreshToken,
         expiresAt: Date.now() + data.expires_in * 1000,
+        scopes: parseScopeList(data.scope) ?? this.tokenData.scopes,
       };
 
-      this.linearClient = new LinearClient({
+      this.setClient(new LinearClient({
         accessToken: this.tokenData.accessToken,
-      });
+      }));
     } catch (error) {
       throw new McpError(
         ErrorCode.InternalError,
         `Token refresh failed: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
     }
+    await this.persistTokens();
   }
 
   public initialize(config: AuthConfig): void {
@@ -177,15 +389,15 @@ export class LinearAuth {
       };
 
       if (config.accessToken.includes("_api_")) {
-        this.linearClient = new LinearClient({
+        this.setClient(new LinearClient({
           apiKey: config.accessToken,
-        });
+        }));
         return;
       }
 
-      this.linearClient = new LinearClient({
+      this.setClient(new LinearClient({
         accessToken: config.accessToken,
-      });
+      }));
     } else {
       // OAuth flow
       if (!config.clientId || !config.clientSecret || !config.redirectUri) {
@@ -194,10 +406,81 @@ export class LinearAuth {
           'Missing required OAuth parameters: clientId, clientSecret, redirectUri'
         );
       }
+      this.validateOAuthOptions(config);
       this.config = config;
     }
   }
 
+  /**
+   * Revokes the OAuth token with Linear and drops all credentials, including
+   * the ones saved in the token store. Local credentials are dropped even if
+   * the revocation fails.
+   */
+  public async logout(): Promise<LogoutResult> {
+    // Don't let an in-flight refresh restore the credentials afterwards
+    await this.refreshPromise?.catch(() => undefined);
+
+    const result: LogoutResult = { revoked: false };
+    if (this.getStatus().mode === 'oauth' && this.tokenData) {
+      try {
+        await this.revokeToken(this.tokenData.accessToken);
+        result.revoked = true;
+      } catch (error) {
+        result.revokeError = error instanceof Error ? error.message : 'Unknown error';
+      }
+    }
+
+    this.tokenData = undefined;
+    this.pendingAuthorizations.clear();
+    this.setClient(undefined);
+
+    try {
+      await this.options.tokenStore?.delete(this.storeKey);
+    } catch (error) {
+      console.error('[Auth] Failed to delete stored OAuth tokens:', error);
+    }
+
+    return result;
+  }
+
+  /**
+   * Reports how the session is authenticated.
+   */
+  public getStatus(): AuthStatus {
+    if (!this.isAuthenticated() || !this.tokenData) {
+      return { mode: 'none', authenticated: false };
+    }
+
+    if (this.config?.type === 'oauth') {
+      return {
+        mode: 'oauth',
+        authenticated: true,
+        expiresAt: new Date(this.tokenData.expiresAt).toISOString(),
+        scopes: this.tokenData.scopes,
+      };
+    }
+
+    return {
+      mode: this.tokenData.accessToken.includes('_api_') ? 'api_key' : 'pat',
+      authenticated: true,
+    };
+  }
+
+  /**
+   * Whether the granted scopes allow an operation requiring `scope`. Personal
+   * access tokens, API keys and tokens with unknown scopes are assumed to,
+   * leaving the check to Linear's API.
+   */
+  public hasScope(scope: LinearScope): boolean {
+    const granted = this.config?.type === 'oauth' ? this.tokenData?.scopes : undefined;
+    if (!granted) return true;
+
+    const expand = (current: string): boolean =>
+      current === scope ||
+      (IMPLIED_SCOPES[current as LinearScope] ?? []).some(expand);
+    return granted.some(expand);
+  }
+
   public getClient(): LinearClient {
     if (!this.linearClient) {
       throw new McpError(
@@ -220,12 +503,126 @@ export class LinearAuth {
   // For testing purposes
   public setTokenData(tokenData: TokenData): void {
     this.tokenData = tokenData;
-    this.linearClient = new LinearClient({
+    this.setClient(new LinearClient({
       accessToken: tokenData.accessToken,
+    }));
+  }
+
+  private async revokeToken(accessToken: string): Promise<void> {
+    const response = await fetch(`${this.tokenUrl}/oauth/revoke`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Accept': 'application/json'
+      }
     });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Token revocation failed: ${response.statusText}. Response: ${errorText}`);
+    }
+  }
+
+  private validateOAuthOptions(config: OAuthConfig): void {
+    const unknown = (config.scopes ?? []).filter(
+      (scope) => !(LINEAR_OAUTH_SCOPES as readonly string[]).includes(scope)
+    );
+    if (unknown.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown OAuth scopes: ${unknown.join(', ')}. Expected any of: ${LINEAR_OAUTH_SCOPES.join(', ')}`
+      );
+    }
+    if (config.actor && config.actor !== 'user' && config.actor !== 'application') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown OAuth actor "${config.actor}". Expected "user" or "application"`
+      );
+    }
+  }
+
+  private get requestedScopes(): LinearScope[] {
+    return this.config?.type === 'oauth' && this.config.scopes?.length
+      ? this.config.scopes
+      : DEFAULT_SCOPES;
+  }
+
+  private setClient(client: LinearClient | undefined): void {
+    this.linearClient = client;
+    this.clientListeners.forEach((listener) => listener(client));
+  }
+
+  private get tokenUrl(): string {
+    return this.options.tokenUrl ?? LinearAuth.OAUTH_TOKEN_URL;
+  }
+
+  private get storeKey(): string {
+    return this.options.storeKey ?? LinearAuth.DEFAULT_STORE_KEY;
+  }
+
+  /**
+   * Saves the current OAuth credentials to the token store.
+   * Failures are logged rather than thrown, since the session itself is valid.
+   */
+  private async persistTokens(): Promise<void> {
+    const { tokenStore } = this.options;
+    if (!tokenStore || this.config?.type !== 'oauth') return;
+
+    try {
+      await tokenStore.save(this.storeKey, {
+        config: this.config,
+        tokenData: this.tokenData,
+        pendingAuthorizations: [...this.pendingAuthorizations.values()],
+      });
+    } catch (error) {
+      console.error('[Auth] Failed to persist OAuth tokens:', error);
+    }
+  }
+
+  /**
+   * Looks up and removes the pending authorization request matching the
+   * callback state. Each state can be used only once: its removal is
+   * persisted before the code exchange, so a state can't be replayed after a
+   * restart even if the exchange fails.
+   */
+  private async consumePendingAuthorization(state: string): Promise<PendingAuthorization> {
+    if (!state) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'Missing OAuth state. Pass the state parameter from the callback URL.'
+      );
+    }
+
+    const pending = this.pendingAuthorizations.get(state);
+    if (!pending) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'OAuth state mismatch. Start a new authorization with linear_auth.'
+      );
+    }
+
+    this.pendingAuthorizations.delete(state);
+    await this.persistTokens();
+    if (pending.expiresAt < Date.now()) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'OAuth authorization request expired. Start a new authorization with linear_auth.'
+      );
+    }
+
+    return pending;
+  }
+
+  private prunePendingAuthorizations(): void {
+    const now = Date.now();
+    for (const [state, pending] of this.pendingAuthorizations) {
+      if (pending.expiresAt < now) {
+        this.pendingAuthorizations.delete(state);
+      }
+    }
   }
 
   private generateState(): string {
-    return Math.random().toString(36).substring(2, 15);
+    return randomBytes(32).toString('base64url');
   }
 }
@@ -0,0 +1,155 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { StoredCredentials, TokenStore } from './token.store.js';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+interface EncryptedEntry {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+interface TokenFile {
+  version: 1;
+  /** Salt for deriving the key from a passphrase */
+  salt: string;
+  entries: Record<string, EncryptedEntry>;
+}
+
+/**
+ * Stores credentials in a JSON file, encrypting each entry with AES-256-GCM.
+ *
+ * The encryption key is derived from the given passphrase. Without one, a
+ * random key is generated once and kept in `<path>.key`. Both files are
+ * created readable by the current user only.
+ */
+export class FileTokenStore implements TokenStore {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly path: string,
+    private readonly passphrase?: string
+  ) {}
+
+  async load(key: string): Promise<StoredCredentials | undefined> {
+    const file = await this.readTokenFile();
+    const entry = file?.entries[key];
+    if (!file || !entry) return undefined;
+
+    const decipher = createDecipheriv(
+      ALGORITHM,
+      await this.getKey(file.salt),
+      Buffer.from(entry.iv, 'base64')
+    );
+    decipher.setAuthTag(Buffer.from(entry.tag, 'base64'));
+
+    try {
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(entry.data, 'base64')),
+        decipher.final(),
+      ]);
+      return JSON.parse(plaintext.toString('utf8'));
+    } catch {
+      throw new Error(
+        `Unable to decrypt stored Linear credentials in ${this.path}. Was the encryption key changed?`
+      );
+    }
+  }
+
+  async save(key: string, credentials: StoredCredentials): Promise<void> {
+    await this.update(async (file) => {
+      const iv = randomBytes(IV_LENGTH);
+      const cipher = createCipheriv(ALGORITHM, await this.getKey(file.salt), iv);
+      const data = Buffer.concat([
+        cipher.update(JSON.stringify(credentials), 'utf8'),
+        cipher.final(),
+      ]);
+
+      file.entries[key] = {
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64'),
+      };
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.update(async (file) => {
+      delete file.entries[key];
+    });
+  }
+
+  /**
+   * Applies a modification to the token file. Writes are serialized and
+   * atomic, so concurrent saves never clobber each other.
+   */
+  private update(modify: (file: TokenFile) => Promise<void>): Promise<void> {
+    const run = this.writeQueue.then(async () => {
+      const file = (await this.readTokenFile()) ?? {
+        version: 1,
+        salt: randomBytes(16).toString('base64'),
+        entries: {},
+      };
+      await modify(file);
+
+      await mkdir(dirname(this.path), { recursive: true, mode: 0o700 });
+      const tempPath = `${this.path}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+      await rename(tempPath, this.path);
+    });
+
+    // Keep the queue alive even if this write fails
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async readTokenFile(): Promise<TokenFile | undefined> {
+    const contents = await this.readOptional(this.path);
+    return contents ? JSON.parse(contents) : undefined;
+  }
+
+  private async getKey(salt: string): Promise<Buffer> {
+    if (this.passphrase) {
+      return scryptSync(this.passphrase, Buffer.from(salt, 'base64'), KEY_LENGTH);
+    }
+
+    const keyPath = `${this.path}.key`;
+    const existing = await this.readOptional(keyPath);
+    if (existing) {
+      return Buffer.from(existing.trim(), 'base64');
+    }
+
+    const key = randomBytes(KEY_LENGTH);
+    await mkdir(dirname(keyPath), { recursive: true, mode: 0o700 });
+    try {
+      await writeFile(keyPath, key.toString('base64'), { mode: 0o600, flag: 'wx' });
+    } catch (error) {
+      // Another process created the key first
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        return this.getKey(salt);
+      }
+      throw error;
+    }
+    return key;
+  }
+
+  private async readOptional(path: string): Promise<string | undefined> {
+    try {
+      return await readFile(path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import {
+  createServer as createHttpServer,
+  IncomingMessage,
+  Server as HttpServer,
+  ServerResponse,
+} from 'node:http';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * How long the listener waits for the user to approve the authorization.
+ */
+const DEFAULT_CALLBACK_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+export type OAuthCallbackHandler = (code: string, state: string) => Promise<void>;
+
+/**
+ * Short-lived HTTP listener on a loopback redirect URI. It waits for a single
+ * OAuth callback, hands the code and state to `onCallback` and shuts down.
+ */
+export class OAuthCallbackListener {
+  private httpServer?: HttpServer;
+  private timer?: NodeJS.Timeout;
+  private received = false;
+  private readonly url: URL;
+  private readonly completed: Promise<void>;
+  private resolveCompleted!: () => void;
+  private rejectCompleted!: (error: Error) => void;
+
+  constructor(
+    redirectUri: string,
+    private readonly onCallback: OAuthCallbackHandler,
+    private readonly timeoutMs = DEFAULT_CALLBACK_TIMEOUT
+  ) {
+    this.url = OAuthCallbackListener.parseRedirectUri(redirectUri);
+    this.completed = new Promise<void>((resolve, reject) => {
+      this.resolveCompleted = resolve;
+      this.rejectCompleted = reject;
+    });
+    // Rejections are surfaced to whoever awaits `completion`
+    this.completed.catch(() => undefined);
+  }
+
+  /**
+   * Resolves once the callback has been received and handled, rejects if the
+   * authorization failed or timed out.
+   */
+  get completion(): Promise<void> {
+    return this.completed;
+  }
+
+  /**
+   * Starts listening on the host and port of the redirect URI.
+   */
+  async listen(): Promise<void> {
+    const httpServer = createHttpServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error('[Auth] OAuth callback failed:', error);
+      });
+    });
+    this.httpServer = httpServer;
+
+    const port = Number(this.url.port || 80);
+    const host = this.url.hostname.replace(/^\[|\]$/g, '');
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(port, host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.timer = setTimeout(() => {
+      this.finish(new Error('Timed out waiting for the OAuth callback'));
+      void this.stop();
+    }, this.timeoutMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stops listening without waiting for a callback.
+   */
+  async close(): Promise<void> {
+    this.finish(new Error('OAuth callback listener closed'));
+    await this.stop();
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', this.url.origin);
+    if (req.method !== 'GET' || url.pathname !== this.url.pathname || this.received) {
+      res.writeHead(404).end();
+      return;
+    }
+    this.received = true;
+
+    const error = url.searchParams.get('error');
+    const code = url.searchParams.get('code');
+    const state = url.searchParams.get('state');
+
+    let failure: Error | undefined;
+    if (error) {
+      failure = new Error(
+        `Authorization denied: ${url.searchParams.get('error_description') ?? error}`
+      );
+    } else if (!code || !state) {
+      failure = new Error('OAuth callback is missing the code or state parameter');
+    } else {
+      try {
+        await this.onCallback(code, state);
+      } catch (callbackError) {
+        failure = callbackError instanceof Error
+          ? callbackError
+          : new Error(String(callbackError));
+      }
+    }
+
+    await this.sendPage(
+      res,
+      failure ? 400 : 200,
+      failure
+        ? `Authentication with Linear failed: ${failure.message}`
+        : 'Successfully authenticated with Linear. You can close this window.'
+    );
+    this.finish(failure);
+    await this.stop();
+  }
+
+  private finish(error?: Error): void {
+    clearTimeout(this.timer);
+    if (error) {
+      this.rejectCompleted(error);
+    } else {
+      this.resolveCompleted();
+    }
+  }
+
+  private async stop(): Promise<void> {
+    const httpServer = this.httpServer;
+    if (!httpServer?.listening) return;
+
+    await new Promise<void>((resolve) => {
+      httpServer.close(() => resolve());
+      httpServer.closeAllConnections();
+    });
+  }
+
+  private sendPage(res: ServerResponse, status: number, message: string): Promise<void> {
+    const escaped = message.replace(/[&<>"]/g, (char) => `&#${char.charCodeAt(0)};`);
+    res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+    return new Promise((resolve) => {
+      res.end(`<!DOCTYPE html><html><body><p>${escaped}</p></body></html>`, () => resolve());
+    });
+  }
+
+  /**
+   * Only plain HTTP redirect URIs on the local machine can be served.
+   */
+  private static parseRedirectUri(redirectUri: string): URL {
+    let url: URL;
+    try {
+      url = new URL(redirectUri);
+    } catch {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid redirect URI: ${redirectUri}`);
+    }
+
+    if (url.protocol !== 'http:' || !LOOPBACK_HOSTS.includes(url.hostname)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Loopback authorization requires an http://localhost or http://127.0.0.1 redirect URI'
+      );
+    }
+    return url;
+  }
+}
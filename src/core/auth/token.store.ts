@@ -0,0 +1,82 @@
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import type {
+  OAuthConfig,
+  PendingAuthorization,
+  TokenData,
+} from '../../auth.js';
+import { FileTokenStore } from './file-token.store.js';
+
+/**
+ * Credentials persisted for an OAuth session.
+ */
+export interface StoredCredentials {
+  config: OAuthConfig;
+  /** Missing while the first authorization is still in progress */
+  tokenData?: TokenData;
+  pendingAuthorizations?: PendingAuthorization[];
+}
+
+/**
+ * Storage backend for OAuth credentials, so sessions survive restarts.
+ * Entries are addressed by a caller-chosen key (e.g. one per workspace).
+ */
+export interface TokenStore {
+  load(key: string): Promise<StoredCredentials | undefined>;
+  save(key: string, credentials: StoredCredentials): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Keeps credentials in memory only. Useful for tests and ephemeral deployments.
+ */
+export class MemoryTokenStore implements TokenStore {
+  private entries = new Map<string, StoredCredentials>();
+
+  async load(key: string): Promise<StoredCredentials | undefined> {
+    return this.entries.get(key);
+  }
+
+  async save(key: string, credentials: StoredCredentials): Promise<void> {
+    this.entries.set(key, credentials);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+export const DEFAULT_TOKEN_STORE_PATH = join(
+  homedir(),
+  '.mcp-server-linear',
+  'tokens.json'
+);
+
+/**
+ * Creates the token store configured through environment variables:
+ * - LINEAR_TOKEN_STORE: "file" (default), "memory" or "none"
+ * - LINEAR_TOKEN_STORE_PATH: location of the encrypted token file
+ * - LINEAR_TOKEN_STORE_KEY: passphrase used to encrypt the token file. When
+ *   unset, a random key is generated next to the token file.
+ */
+export function createTokenStore(
+  env: NodeJS.ProcessEnv = process.env
+): TokenStore | undefined {
+  const type = (env.LINEAR_TOKEN_STORE || 'file').toLowerCase();
+
+  switch (type) {
+    case 'none':
+      return undefined;
+    case 'memory':
+      return new MemoryTokenStore();
+    case 'file':
+      return new FileTokenStore(
+        env.LINEAR_TOKEN_STORE_PATH || DEFAULT_TOKEN_STORE_PATH,
+        env.LINEAR_TOKEN_STORE_KEY
+      );
+    default:
+      throw new Error(
+        `Unsupported token store "${type}". Expected "file", "memory" or "none".`
+      );
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Storage backend for cached API responses. Entries expire after a
+ * backend-defined time to live.
+ */
+export interface CacheStore {
+  get(key: string): Promise<unknown | undefined>;
+  set(key: string, value: unknown): Promise<void>;
+  /**
+   * Removes the entries whose key starts with `prefix`, or all entries
+   * without one.
+   */
+  clear(prefix?: string): Promise<void>;
+}
+
+export const DEFAULT_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Keeps entries in memory for a fixed time.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  constructor(private readonly ttlMs = DEFAULT_CACHE_TTL) {}
+
+  async get(key: string): Promise<unknown | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+  }
+
+  async clear(prefix?: string): Promise<void> {
+    if (prefix === undefined) {
+      this.entries.clear();
+      return;
+    }
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Creates caches as configured through environment variables, one per
+ * session:
+ * - LINEAR_CACHE: "memory" (default) or "none"
+ * - LINEAR_CACHE_TTL: seconds cached data is reused for (default: 300, 0
+ *   disables caching)
+ * @throws {Error} If the configuration is invalid
+ */
+export function createCacheFactory(
+  env: NodeJS.ProcessEnv = process.env
+): () => CacheStore | undefined {
+  const type = (env.LINEAR_CACHE || 'memory').toLowerCase();
+  const ttl = env.LINEAR_CACHE_TTL ? Number(env.LINEAR_CACHE_TTL) : undefined;
+  if (ttl !== undefined && (!Number.isFinite(ttl) || ttl < 0)) {
+    throw new Error(
+      `Invalid LINEAR_CACHE_TTL "${env.LINEAR_CACHE_TTL}". Expected a number of seconds.`
+    );
+  }
+
+  switch (type) {
+    case 'none':
+      return () => undefined;
+    case 'memory':
+      return ttl === 0
+        ? () => undefined
+        : () => new MemoryCacheStore(ttl !== undefined ? ttl * 1000 : undefined);
+    default:
+      throw new Error(`Unsupported cache "${type}". Expected "memory" or "none".`);
+  }
+}
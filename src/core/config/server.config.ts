@@ -0,0 +1,167 @@
+/**
+ * Server configuration resolved from CLI flags and environment variables.
+ * CLI flags take precedence over environment variables.
+ */
+
+import { readFileSync } from 'node:fs';
+
+export type TransportMode = 'stdio' | 'http';
+
+export interface HttpTransportConfig {
+  host: string;
+  port: number;
+  /** Path serving the Streamable HTTP endpoint */
+  path: string;
+  /** Reject sessions that don't present a Linear token as bearer credentials */
+  requireAuth: boolean;
+  /** Milliseconds without requests after which a session is closed */
+  sessionTimeout: number;
+}
+
+/**
+ * Glob patterns selecting the tools a deployment exposes.
+ */
+export interface ToolFilterConfig {
+  include: string[];
+  exclude: string[];
+}
+
+export interface ServerConfig {
+  transport: TransportMode;
+  http: HttpTransportConfig;
+  /** Hide and block all tools that modify the Linear workspace */
+  readOnly: boolean;
+  tools: ToolFilterConfig;
+}
+
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+const DEFAULT_HTTP_PORT = 8080;
+const DEFAULT_HTTP_PATH = '/mcp';
+const DEFAULT_SESSION_TIMEOUT_SECONDS = 30 * 60;
+
+/**
+ * Reads the value of a `--flag value` or `--flag=value` style CLI argument.
+ */
+const getFlag = (argv: string[], name: string): string | undefined => {
+  const prefix = `--${name}=`;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === `--${name}`) {
+      return argv[i + 1];
+    }
+    if (argv[i].startsWith(prefix)) {
+      return argv[i].slice(prefix.length);
+    }
+  }
+  return undefined;
+};
+
+const parseTransport = (value: string | undefined): TransportMode => {
+  if (!value) return 'stdio';
+
+  const mode = value.toLowerCase();
+  if (mode === 'stdio' || mode === 'http') {
+    return mode;
+  }
+  throw new Error(`Unsupported transport "${value}". Expected "stdio" or "http".`);
+};
+
+const parseBoolean = (value: string | undefined): boolean =>
+  value !== undefined && ['1', 'true', 'yes'].includes(value.toLowerCase());
+
+const parsePort = (value: string | undefined): number => {
+  if (!value) return DEFAULT_HTTP_PORT;
+
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port "${value}"`);
+  }
+  return port;
+};
+
+/**
+ * Parses the session idle timeout, given in seconds.
+ */
+const parseSessionTimeout = (value: string | undefined): number => {
+  if (!value) return DEFAULT_SESSION_TIMEOUT_SECONDS * 1000;
+
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    throw new Error(`Invalid session timeout "${value}"`);
+  }
+  return seconds * 1000;
+};
+
+/**
+ * Splits a comma separated list, ignoring blank entries.
+ */
+const parseList = (value: string | undefined): string[] | undefined =>
+  value?.split(',').map((item) => item.trim()).filter(Boolean);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+/**
+ * Reads a JSON tool configuration file of the form
+ * `{ "include": ["linear_get_*"], "exclude": ["linear_delete_*"] }`.
+ */
+const readToolConfigFile = (path: string): Partial<ToolFilterConfig> => {
+  let config: unknown;
+  try {
+    config = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Unable to read tool configuration ${path}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  const { include, exclude } = (config ?? {}) as Record<string, unknown>;
+  if ((include !== undefined && !isStringArray(include)) ||
+      (exclude !== undefined && !isStringArray(exclude))) {
+    throw new Error(
+      `Invalid tool configuration ${path}: "include" and "exclude" must be arrays of strings`
+    );
+  }
+  return { include, exclude };
+};
+
+/**
+ * Loads the server configuration.
+ * @param argv CLI arguments without the node binary and script path
+ * @param env Environment variables
+ */
+export function loadServerConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): ServerConfig {
+  const toolConfigPath = getFlag(argv, 'tools-config') ?? env.LINEAR_TOOLS_CONFIG;
+  const toolConfig = toolConfigPath ? readToolConfigFile(toolConfigPath) : {};
+
+  const transport = argv.includes('--http')
+    ? 'http'
+    : parseTransport(getFlag(argv, 'transport') ?? env.MCP_TRANSPORT);
+
+  return {
+    transport,
+    http: {
+      host: getFlag(argv, 'host') ?? env.MCP_HTTP_HOST ?? DEFAULT_HTTP_HOST,
+      port: parsePort(getFlag(argv, 'port') ?? env.MCP_HTTP_PORT),
+      path: getFlag(argv, 'path') ?? env.MCP_HTTP_PATH ?? DEFAULT_HTTP_PATH,
+      requireAuth:
+        argv.includes('--require-auth') || parseBoolean(env.MCP_HTTP_REQUIRE_AUTH),
+      sessionTimeout: parseSessionTimeout(
+        getFlag(argv, 'session-timeout') ?? env.MCP_HTTP_SESSION_TIMEOUT
+      ),
+    },
+    readOnly: argv.includes('--read-only') || parseBoolean(env.LINEAR_READ_ONLY),
+    tools: {
+      include:
+        parseList(getFlag(argv, 'tools-include') ?? env.LINEAR_TOOLS_INCLUDE) ??
+        toolConfig.include ??
+        [],
+      exclude:
+        parseList(getFlag(argv, 'tools-exclude') ?? env.LINEAR_TOOLS_EXCLUDE) ??
+        toolConfig.exclude ??
+        [],
+    },
+  };
+}
@@ -0,0 +1,229 @@
+/**
+ * Category of a failed Linear API request.
+ */
+export type LinearErrorKind =
+  | 'not_found'
+  | 'forbidden'
+  | 'rate_limited'
+  | 'validation'
+  | 'conflict'
+  | 'auth_expired'
+  | 'unknown';
+
+export interface LinearErrorDetails {
+  /** Error type or code reported in the GraphQL `extensions` */
+  code?: string;
+  /** Input field the error refers to, e.g. `input.stateId` */
+  field?: string;
+  /** Linear's id of the failed request, for support inquiries */
+  requestId?: string;
+  /** HTTP status of the response */
+  status?: number;
+  /** How long to wait before retrying a rate limited request */
+  retryAfterMs?: number;
+  /** Valid values close to the rejected one */
+  suggestions?: string[];
+}
+
+/**
+ * A failed Linear API request. Subclasses identify the failures clients can
+ * act on; everything else stays a plain LinearApiError.
+ */
+export class LinearApiError extends Error {
+  readonly kind: LinearErrorKind = 'unknown';
+
+  constructor(message: string, readonly details: LinearErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class NotFoundError extends LinearApiError {
+  readonly kind = 'not_found';
+}
+
+export class ForbiddenError extends LinearApiError {
+  readonly kind = 'forbidden';
+}
+
+export class RateLimitedError extends LinearApiError {
+  readonly kind = 'rate_limited';
+}
+
+export class ValidationError extends LinearApiError {
+  readonly kind = 'validation';
+}
+
+export class ConflictError extends LinearApiError {
+  readonly kind = 'conflict';
+}
+
+export class AuthExpiredError extends LinearApiError {
+  readonly kind = 'auth_expired';
+}
+
+/**
+ * A GraphQL error as returned by the Linear API.
+ */
+interface GraphQLErrorPayload {
+  message?: string;
+  path?: Array<string | number>;
+  extensions?: {
+    type?: string;
+    code?: string;
+    userPresentableMessage?: string;
+    field?: string;
+    validationErrors?: Array<{ property?: string }>;
+  };
+}
+
+export type ResponseHeaders = Headers | Record<string, string>;
+
+interface ErrorResponse {
+  errors?: GraphQLErrorPayload[];
+  status?: number;
+  headers?: ResponseHeaders;
+}
+
+const REQUEST_ID_HEADERS = ['x-request-id', 'request-id'];
+
+/**
+ * Linear error types and codes per category, compared without case, spaces
+ * or underscores. The HTTP status is the fallback when neither the type nor
+ * the code is known.
+ */
+const ERROR_CATEGORIES: Array<{
+  kind: Exclude<LinearErrorKind, 'unknown'>;
+  types: string[];
+  status?: number;
+}> = [
+  { kind: 'auth_expired', types: ['authenticationerror', 'unauthenticated'], status: 401 },
+  { kind: 'forbidden', types: ['forbidden', 'featurenotaccessible'], status: 403 },
+  { kind: 'rate_limited', types: ['ratelimited', 'usagelimitexceeded'], status: 429 },
+  { kind: 'not_found', types: ['entitynotfound', 'notfound'], status: 404 },
+  { kind: 'conflict', types: ['conflict', 'locktimeout'], status: 409 },
+  {
+    kind: 'validation',
+    types: ['invalidinput', 'inputerror', 'usererror', 'graphqlvalidationfailed', 'baduserinput'],
+    status: 400,
+  },
+];
+
+const ERROR_CLASSES: Record<LinearErrorKind, typeof LinearApiError> = {
+  not_found: NotFoundError,
+  forbidden: ForbiddenError,
+  rate_limited: RateLimitedError,
+  validation: ValidationError,
+  conflict: ConflictError,
+  auth_expired: AuthExpiredError,
+  unknown: LinearApiError,
+};
+
+const normalize = (value?: string): string =>
+  (value ?? '').toLowerCase().replace(/[\s_-]+/g, '');
+
+/**
+ * The response of a failed request, from either the Linear SDK's LinearError
+ * (`raw.response`) or the underlying GraphQL ClientError (`response`).
+ */
+const getResponse = (error: unknown): ErrorResponse | undefined => {
+  const candidate = error as { raw?: { response?: ErrorResponse }; response?: ErrorResponse };
+  return candidate?.raw?.response ?? candidate?.response;
+};
+
+/**
+ * Reads a header, without regard to case, from a fetch Headers object or a
+ * plain record.
+ */
+export const getHeader = (
+  headers: ResponseHeaders | undefined,
+  name: string
+): string | undefined => {
+  if (!headers) return undefined;
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === name);
+  return entry?.[1];
+};
+
+/**
+ * Headers of the response a failed request received, if any.
+ */
+export const getErrorHeaders = (error: unknown): ResponseHeaders | undefined =>
+  getResponse(error)?.headers;
+
+/**
+ * Milliseconds until the rate limit resets, from `Retry-After` (seconds) or
+ * the `X-RateLimit-*-Reset` header (epoch milliseconds) of the exhausted
+ * budget.
+ */
+const getRetryAfter = (headers: ResponseHeaders | undefined): number | undefined => {
+  const retryAfter = Number(getHeader(headers, 'retry-after'));
+  if (retryAfter > 0) return retryAfter * 1000;
+
+  const exhausted =
+    ['requests', 'complexity'].find(
+      (budget) => getHeader(headers, `x-ratelimit-${budget}-remaining`) === '0'
+    ) ?? 'requests';
+  const reset = Number(getHeader(headers, `x-ratelimit-${exhausted}-reset`));
+  if (reset > 0) return Math.max(0, reset - Date.now());
+
+  return undefined;
+};
+
+const classify = (
+  graphqlError: GraphQLErrorPayload | undefined,
+  status: number | undefined,
+  message: string
+): LinearErrorKind => {
+  const types = [graphqlError?.extensions?.type, graphqlError?.extensions?.code].map(normalize);
+  const category = ERROR_CATEGORIES.find((candidate) =>
+    types.some((type) => candidate.types.includes(type))
+  );
+  // Linear reports references to unknown entities as invalid input
+  if (category?.kind === 'validation' && /not found|could not find/i.test(message)) {
+    return 'not_found';
+  }
+  if (category) return category.kind;
+
+  return ERROR_CATEGORIES.find((candidate) => status && candidate.status === status)?.kind ?? 'unknown';
+};
+
+/**
+ * Converts an error thrown by the Linear client into a LinearApiError,
+ * categorized by the GraphQL `extensions` of its first error and the HTTP
+ * status of the response.
+ */
+export function parseLinearApiError(error: unknown): LinearApiError {
+  if (error instanceof LinearApiError) return error;
+
+  const response = getResponse(error);
+  const graphqlError = response?.errors?.[0];
+  const extensions = graphqlError?.extensions;
+  const status = response?.status ?? (error as { status?: number })?.status;
+
+  const message =
+    extensions?.userPresentableMessage ??
+    graphqlError?.message ??
+    // ClientError messages end with the JSON of the whole request
+    (error instanceof Error ? error.message.split(': {')[0] : String(error));
+
+  const kind = classify(graphqlError, status, message);
+  const details: LinearErrorDetails = {
+    code: extensions?.code ?? extensions?.type,
+    field:
+      extensions?.field ??
+      extensions?.validationErrors?.find((validation) => validation.property)?.property,
+    requestId: REQUEST_ID_HEADERS.map((name) => getHeader(response?.headers, name)).find(Boolean),
+    status,
+    retryAfterMs: kind === 'rate_limited' ? getRetryAfter(response?.headers) : undefined,
+  };
+
+  return new ERROR_CLASSES[kind](
+    `GraphQL operation failed: ${message}`,
+    Object.fromEntries(
+      Object.entries(details).filter(([, value]) => value !== undefined)
+    ) as LinearErrorDetails
+  );
+}
@@ -1,7 +1,8 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
-import { LinearAuth } from '../../auth.js';
+import { LinearAuth, LinearScope } from '../../auth.js';
 import { LinearGraphQLClient } from '../../graphql/client.js';
-import { BaseToolResponse } from '../interfaces/tool-handler.interface.js';
+import { BaseToolResponse, ErrorToolResponse } from '../interfaces/tool-handler.interface.js';
+import { LinearApiError } from '../errors/linear.errors.js';
 
 /**
  * Base handler class that implements common authentication and error handling logic.
@@ -14,10 +15,12 @@ export abstract class BaseHandler {
   ) {}
 
   /**
-   * Verifies authentication and returns the GraphQL client.
+   * Verifies authentication and returns the GraphQL client, refreshing an
+   * expiring OAuth token first.
    * Should be called at the start of each handler method.
+   * @param requiredScope OAuth scope the operation needs, e.g. `write` for mutations
    */
-  protected verifyAuth(): LinearGraphQLClient {
+  protected async verifyAuth(requiredScope?: LinearScope): Promise<LinearGraphQLClient> {
     if (!this.auth.isAuthenticated() || !this.graphqlClient) {
       throw new McpError(
         ErrorCode.InvalidRequest,
@@ -25,10 +28,15 @@ export abstract class BaseHandler {
       );
     }
 
-    if (this.auth.needsTokenRefresh()) {
-      this.auth.refreshAccessToken();
+    if (requiredScope && !this.auth.hasScope(requiredScope)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `The Linear token was not granted the "${requiredScope}" scope this tool requires. Re-authorize with linear_auth and request it.`
+      );
     }
 
+    await this.auth.ensureValidToken();
+
     return this.graphqlClient;
   }
 
@@ -54,17 +62,50 @@ export abstract class BaseHandler {
   }
 
   /**
-   * Handles errors consistently across all handlers.
+   * Handles errors consistently across all handlers. MCP errors pass through
+   * unchanged. Linear API errors the caller can act on become an `isError`
+   * tool result (not found, forbidden, rate limited, conflict) or an MCP
+   * error with a matching code (validation, expired authentication), with
+   * the offending field and request id attached. Anything else is an
+   * internal error.
+   * @returns The tool result to return from the handler
    */
-  protected handleError(error: unknown, operation: string): never {
-    throw new McpError(
-      ErrorCode.InternalError,
-      `Failed to ${operation}: ${error instanceof Error ? error.message : 'Unknown error'}`
-    );
+  protected handleError(error: unknown, operation: string): ErrorToolResponse {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    const message = `Failed to ${operation}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    if (!(error instanceof LinearApiError)) {
+      throw new McpError(ErrorCode.InternalError, message);
+    }
+
+    const data = { kind: error.kind, ...error.details };
+    switch (error.kind) {
+      case 'validation':
+        throw new McpError(ErrorCode.InvalidParams, message, data);
+      case 'auth_expired':
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `${message}. Re-authenticate with linear_auth.`,
+          data
+        );
+      case 'not_found':
+      case 'forbidden':
+      case 'rate_limited':
+      case 'conflict':
+        return {
+          isError: true,
+          content: [{ type: 'text', text: JSON.stringify({ error: message, ...data }, null, 2) }],
+        };
+      default:
+        throw new McpError(ErrorCode.InternalError, message, data);
+    }
   }
 
   /**
-   * Validates that required parameters are present.
+   * Validates that required parameters are present. Falsy values such as `0`,
+   * `false` or `""` count as present.
    * @param params The parameters object to validate
    * @param required Array of required parameter names
    * @throws {McpError} If any required parameters are missing
@@ -73,7 +114,9 @@ export abstract class BaseHandler {
     params: T,
     required: Array<keyof T & string>
   ): void {
-    const missing = required.filter(param => !params[param]);
+    const missing = required.filter(
+      param => params?.[param] === undefined || params?.[param] === null
+    );
     if (missing.length > 0) {
       throw new McpError(
         ErrorCode.InvalidParams,
@@ -6,6 +6,8 @@ export interface ToolHandler {
   // Authentication
   handleAuth(args: any): Promise<BaseToolResponse>;
   handleAuthCallback(args: any): Promise<BaseToolResponse>;
+  handleLogout(args: any): Promise<BaseToolResponse>;
+  handleAuthStatus(args: any): Promise<BaseToolResponse>;
 
   // Issue Operations
   handleCreateIssue(args: any): Promise<BaseToolResponse>;
@@ -36,6 +38,31 @@ export interface ToolHandler {
   handleCommentResolve(args: any): Promise<BaseToolResponse>;
   handleCommentUnresolve(args: any): Promise<BaseToolResponse>;
   handleCustomerNeedCreateFromAttachment(args: any): Promise<BaseToolResponse>;
+
+  // Relation Operations
+  handleCreateIssueRelation(args: any): Promise<BaseToolResponse>;
+  handleGetIssueRelations(args: any): Promise<BaseToolResponse>;
+  handleDeleteIssueRelation(args: any): Promise<BaseToolResponse>;
+  handleGetDependencyChain(args: any): Promise<BaseToolResponse>;
+
+  // History Operations
+  handleGetIssueHistory(args: any): Promise<BaseToolResponse>;
+
+  // Attachment Operations
+  handleGetIssueAttachments(args: any): Promise<BaseToolResponse>;
+  handleCreateAttachment(args: any): Promise<BaseToolResponse>;
+  handleUpdateAttachment(args: any): Promise<BaseToolResponse>;
+  handleDeleteAttachment(args: any): Promise<BaseToolResponse>;
+  handleLinkPullRequest(args: any): Promise<BaseToolResponse>;
+
+  // File Operations
+  handleUploadFile(args: any): Promise<BaseToolResponse>;
+
+  // Rate Limits
+  handleRateLimitStatus(args: any): Promise<BaseToolResponse>;
+
+  // Cache
+  handleRefreshCache(args: any): Promise<BaseToolResponse>;
 }
 
 /**
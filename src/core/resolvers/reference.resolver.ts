@@ -0,0 +1,301 @@
+import { LinearGraphQLClient } from '../../graphql/client.js';
+import { NotFoundError, ValidationError } from '../errors/linear.errors.js';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const MAX_SUGGESTIONS = 5;
+
+export const isUuid = (value: string): boolean => UUID_PATTERN.test(value);
+
+/**
+ * Issue fields that refer to other entities, by id or by name.
+ */
+export interface IssueReferences {
+  teamId?: string;
+  stateId?: string;
+  assigneeId?: string;
+  labelIds?: string[];
+  projectId?: string;
+}
+
+export interface ResolveOptions {
+  /** Team that state and label names belong to, if the input has no teamId */
+  teamId?: string;
+  /** Location of the input in the tool arguments, e.g. `issues[2]` */
+  path?: string;
+}
+
+/**
+ * Something a reference can resolve to.
+ */
+interface Candidate {
+  id: string;
+  /** Names the candidate can be referred to by, e.g. a team's key and name */
+  names: string[];
+  /** How the candidate is shown in suggestions */
+  label: string;
+}
+
+const normalize = (value: string): string => value.trim().toLowerCase();
+
+/**
+ * Edit distance between two strings, to suggest names close to a typo.
+ */
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const joinPath = (path: string | undefined, field: string): string =>
+  path ? `${path}.${field}` : field;
+
+/**
+ * Resolves human-friendly references (team keys, state and label names, user
+ * emails or names, "me", project names) to the ids the Linear API expects.
+ * UUIDs are passed through without a lookup. Lookups go through the client's
+ * cached reference data.
+ */
+export class ReferenceResolver {
+  constructor(private readonly client: LinearGraphQLClient) {}
+
+  /**
+   * Resolves a team id, key ("ENG") or name.
+   */
+  async resolveTeam(ref: string, field = 'teamId'): Promise<string> {
+    if (isUuid(ref)) return ref;
+
+    const { teams } = await this.client.getTeams();
+    return this.pick(
+      ref,
+      teams.nodes.map((team) => ({
+        id: team.id,
+        names: [team.key, team.name],
+        label: `${team.key} (${team.name})`,
+      })),
+      'team',
+      field,
+      teams.pageInfo.hasNextPage
+    );
+  }
+
+  /**
+   * Resolves a workflow state id or name ("In Progress") of a team.
+   */
+  async resolveState(ref: string, teamId: string, field = 'stateId'): Promise<string> {
+    if (isUuid(ref)) return ref;
+
+    const team = await this.getTeam(teamId, field);
+    return this.pick(
+      ref,
+      team.states.nodes.map((state) => ({ id: state.id, names: [state.name], label: state.name })),
+      `state in team ${team.key}`,
+      field
+    );
+  }
+
+  /**
+   * Resolves label ids or names usable by a team: its own labels and the
+   * workspace labels.
+   */
+  async resolveLabels(refs: string[], teamId: string | undefined, field = 'labelIds'): Promise<string[]> {
+    if (refs.every(isUuid)) return refs;
+
+    const { issueLabels } = await this.client.getLabels();
+    const candidates = issueLabels.nodes
+      .filter((label) => !teamId || !label.team || label.team.id === teamId)
+      .map((label) => ({ id: label.id, names: [label.name], label: label.name }));
+
+    return refs.map((ref, index) =>
+      isUuid(ref)
+        ? ref
+        : this.pick(
+            ref,
+            candidates,
+            'label',
+            `${field}[${index}]`,
+            issueLabels.pageInfo.hasNextPage
+          )
+    );
+  }
+
+  /**
+   * Resolves a user id, email, name or display name, or "me" for the
+   * authenticated user.
+   */
+  async resolveUser(ref: string, field = 'assigneeId'): Promise<string> {
+    if (isUuid(ref)) return ref;
+
+    if (normalize(ref) === 'me') {
+      const { viewer } = await this.client.getCurrentUser();
+      return viewer.id;
+    }
+
+    const { users } = await this.client.getUsers();
+    return this.pick(
+      ref,
+      users.nodes
+        .filter((user) => user.active)
+        .map((user) => ({
+          id: user.id,
+          names: [user.email, user.name, user.displayName],
+          label: `${user.name} <${user.email}>`,
+        })),
+      'user',
+      field,
+      users.pageInfo.hasNextPage
+    );
+  }
+
+  /**
+   * Resolves a project id or name.
+   */
+  async resolveProject(ref: string, field = 'projectId'): Promise<string> {
+    if (isUuid(ref)) return ref;
+
+    const toCandidates = (projects: Array<{ id: string; name: string }>) =>
+      projects.map((project) => ({ id: project.id, names: [project.name], label: project.name }));
+
+    const exact = await this.client.searchProjects({ name: { eqIgnoreCase: ref.trim() } });
+    if (exact.projects.nodes.length > 0) {
+      return this.pick(ref, toCandidates(exact.projects.nodes), 'project', field);
+    }
+
+    const similar = await this.client.searchProjects({
+      name: { containsIgnoreCase: ref.trim() },
+    });
+    return this.pick(ref, toCandidates(similar.projects.nodes), 'project', field);
+  }
+
+  /**
+   * Resolves all references of an issue input. State and label names are
+   * looked up in the input's team, or in `options.teamId`.
+   */
+  async resolveIssueReferences<T extends IssueReferences>(
+    input: T,
+    options: ResolveOptions = {}
+  ): Promise<T> {
+    const { path } = options;
+    const resolved: T = { ...input };
+
+    if (input.teamId) {
+      resolved.teamId = await this.resolveTeam(input.teamId, joinPath(path, 'teamId'));
+    }
+    const teamId = resolved.teamId ?? options.teamId;
+
+    if (input.stateId) {
+      if (!teamId && !isUuid(input.stateId)) {
+        throw new ValidationError(
+          `Can't resolve the state "${input.stateId}" without knowing the team`,
+          { field: joinPath(path, 'stateId') }
+        );
+      }
+      resolved.stateId = await this.resolveState(input.stateId, teamId!, joinPath(path, 'stateId'));
+    }
+    if (input.labelIds) {
+      resolved.labelIds = await this.resolveLabels(input.labelIds, teamId, joinPath(path, 'labelIds'));
+    }
+    if (input.assigneeId) {
+      resolved.assigneeId = await this.resolveUser(input.assigneeId, joinPath(path, 'assigneeId'));
+    }
+    if (input.projectId) {
+      resolved.projectId = await this.resolveProject(input.projectId, joinPath(path, 'projectId'));
+    }
+    return resolved;
+  }
+
+  /**
+   * Whether resolving the input's state or label names requires knowing the
+   * team of the issue.
+   */
+  needsTeam(input: IssueReferences): boolean {
+    return (
+      !input.teamId &&
+      ((!!input.stateId && !isUuid(input.stateId)) ||
+        (input.labelIds ?? []).some((label) => !isUuid(label)))
+    );
+  }
+
+  private async getTeam(teamId: string, field: string) {
+    const { teams } = await this.client.getTeams();
+    const team = teams.nodes.find((candidate) => candidate.id === teamId);
+    if (!team) {
+      throw new NotFoundError(`Team ${teamId} not found`, { field });
+    }
+    return team;
+  }
+
+  /**
+   * Picks the candidate whose id or one of its names (ignoring case) is `ref`.
+   * `truncated` tells that the candidates are only part of the workspace's.
+   * @throws {ValidationError} If no or several candidates match, with
+   * suggestions of what was meant
+   */
+  private pick(
+    ref: string,
+    candidates: Candidate[],
+    kind: string,
+    field: string,
+    truncated = false
+  ): string {
+    const wanted = normalize(ref);
+    const matches = candidates.filter(
+      (candidate) =>
+        candidate.id === ref || candidate.names.some((name) => name && normalize(name) === wanted)
+    );
+
+    if (matches.length === 1) {
+      return matches[0].id;
+    }
+
+    if (matches.length > 1) {
+      const suggestions = matches.map((match) => `${match.label}: ${match.id}`);
+      throw new ValidationError(
+        `"${ref}" matches several ${kind}s, pass one of their ids instead: ${suggestions.join(', ')}`,
+        { field, suggestions }
+      );
+    }
+
+    const suggestions = this.suggest(wanted, candidates);
+    let message = `No ${kind} "${ref}" found.`;
+    if (suggestions.length > 0) {
+      message += ` Did you mean: ${suggestions.join(', ')}?`;
+    }
+    if (truncated) {
+      message += ` Not every ${kind} of the workspace was searched, pass its id instead.`;
+    }
+    throw new ValidationError(message, { field, suggestions });
+  }
+
+  /**
+   * Candidates whose names contain the reference or are only a few typos
+   * away from it, closest first.
+   */
+  private suggest(wanted: string, candidates: Candidate[]): string[] {
+    const threshold = Math.max(2, Math.floor(wanted.length / 3));
+    return candidates
+      .map((candidate) => {
+        const distances = candidate.names
+          .filter(Boolean)
+          .map(normalize)
+          .map((name) =>
+            name.includes(wanted) || wanted.includes(name) ? 0 : levenshtein(name, wanted)
+          );
+        return { candidate, distance: Math.min(...distances) };
+      })
+      .filter(({ distance }) => distance <= threshold)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, MAX_SUGGESTIONS)
+      .map(({ candidate }) => candidate.label);
+  }
+}
@@ -0,0 +1,97 @@
+import { LinearClient } from '@linear/sdk';
+import { LinearAuth } from '../../auth.js';
+import { LinearGraphQLClient } from '../../graphql/client.js';
+import { HandlerFactory } from '../handlers/handler.factory.js';
+import { TokenStore } from '../auth/token.store.js';
+import { ToolPolicy } from '../tools/tool.policy.js';
+import { CacheStore } from '../cache/cache.store.js';
+
+export interface LinearSessionOptions {
+  /** Personal access token or API key the session acts with */
+  accessToken?: string;
+  /** Store OAuth credentials are restored from and saved to */
+  tokenStore?: TokenStore;
+  /** Key of this session's entry in the token store */
+  storeKey?: string;
+  /** Tools the session may call */
+  toolPolicy?: ToolPolicy;
+  /** Cache for the session's reference data (teams, users, projects) */
+  cache?: CacheStore;
+}
+
+/**
+ * Authentication state and handlers for a single MCP session.
+ * Each session owns its LinearAuth/LinearGraphQLClient pair, so tool calls
+ * always act as the identity the session was created with.
+ */
+export class LinearSession {
+  readonly auth: LinearAuth;
+  /** Resolves once stored credentials have been restored */
+  readonly ready: Promise<void>;
+  private graphqlClient?: LinearGraphQLClient;
+  private factory: HandlerFactory;
+  private readonly toolPolicy: ToolPolicy;
+  private readonly cache?: CacheStore;
+
+  constructor(options: LinearSessionOptions = {}) {
+    this.toolPolicy = options.toolPolicy ?? new ToolPolicy();
+    this.cache = options.cache;
+    this.auth = new LinearAuth({
+      tokenStore: options.tokenStore,
+      storeKey: options.storeKey,
+    });
+
+    // Keep the GraphQL client in sync with the auth state, e.g. after a token refresh
+    this.auth.onClientChange((client) => this.attachClient(client));
+
+    // Initialize with PAT if available
+    if (options.accessToken) {
+      this.auth.initialize({
+        type: 'pat',
+        accessToken: options.accessToken,
+      });
+    }
+
+    this.factory = new HandlerFactory(this.auth, this.graphqlClient, this.toolPolicy);
+    this.ready = options.accessToken ? Promise.resolve() : this.restore();
+  }
+
+  get handlerFactory(): HandlerFactory {
+    return this.factory;
+  }
+
+  /**
+   * Restores OAuth credentials saved by a previous run.
+   */
+  private async restore(): Promise<void> {
+    try {
+      await this.auth.loadStoredTokens();
+    } catch (error) {
+      console.error('[Auth] Failed to restore stored OAuth tokens:', error);
+    }
+  }
+
+  /**
+   * Points the session's GraphQL client at a new Linear client. The first
+   * client (e.g. after completing OAuth) also gets the handlers rebuilt, since
+   * they were created without a GraphQL client. Without a client (after a
+   * logout) the handlers are rebuilt without one.
+   */
+  private attachClient(client: LinearClient | undefined): void {
+    if (!client) {
+      // The next identity must not see data cached for this one
+      void this.cache?.clear();
+      this.graphqlClient = undefined;
+      this.factory = new HandlerFactory(this.auth, undefined, this.toolPolicy);
+      return;
+    }
+
+    if (this.graphqlClient) {
+      this.graphqlClient.setLinearClient(client);
+      return;
+    }
+
+    this.graphqlClient = new LinearGraphQLClient(client, { cache: this.cache });
+    this.factory = new HandlerFactory(this.auth, this.graphqlClient, this.toolPolicy);
+  }
+}
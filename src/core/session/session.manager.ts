@@ -0,0 +1,98 @@
+import { createHash } from 'node:crypto';
+import { LinearSession } from './linear.session.js';
+import { TokenStore } from '../auth/token.store.js';
+import { ToolPolicy } from '../tools/tool.policy.js';
+import { CacheStore } from '../cache/cache.store.js';
+
+/**
+ * Identifies the MCP client a session is acquired for.
+ */
+export interface SessionContext {
+  sessionId: string;
+  /** Access token presented by the client, if any */
+  accessToken?: string;
+  /**
+   * Token store entry for persisting OAuth credentials across restarts.
+   * Only sessions with a stable identity (e.g. stdio) should set this.
+   */
+  storeKey?: string;
+}
+
+export interface SessionManagerOptions {
+  /** Access token for sessions that don't present their own */
+  defaultAccessToken?: string;
+  tokenStore?: TokenStore;
+  /** Tools sessions may call */
+  toolPolicy?: ToolPolicy;
+  /** Creates the cache of a new session. Sessions never share cached data */
+  createCache?: () => CacheStore | undefined;
+}
+
+interface SessionEntry {
+  session: LinearSession;
+  refs: number;
+}
+
+/**
+ * Keeps track of the Linear sessions used by connected MCP clients.
+ *
+ * Sessions that present their own access token are keyed by a hash of that
+ * token, so several connections of the same user share one session. All other
+ * connections get a private session keyed by their MCP session id, initialized
+ * with the server's default access token (if any) or with OAuth credentials
+ * restored from the token store.
+ */
+export class SessionManager {
+  private sessions = new Map<string, SessionEntry>();
+
+  constructor(private readonly options: SessionManagerOptions = {}) {}
+
+  /**
+   * Returns the session for the given MCP client, creating it if needed.
+   * Every call must be paired with `release`.
+   */
+  acquire(context: SessionContext): { key: string; session: LinearSession } {
+    const { sessionId, accessToken, storeKey } = context;
+    const key = accessToken
+      ? `token:${createHash('sha256').update(accessToken).digest('hex')}`
+      : `session:${sessionId}`;
+
+    let entry = this.sessions.get(key);
+    if (!entry) {
+      entry = {
+        session: new LinearSession({
+          accessToken: accessToken ?? this.options.defaultAccessToken,
+          tokenStore: storeKey ? this.options.tokenStore : undefined,
+          storeKey,
+          toolPolicy: this.options.toolPolicy,
+          cache: this.options.createCache?.(),
+        }),
+        refs: 0,
+      };
+      this.sessions.set(key, entry);
+    }
+    entry.refs++;
+
+    return { key, session: entry.session };
+  }
+
+  /**
+   * Releases a session acquired with `acquire`, dropping it once unused.
+   */
+  release(key: string): void {
+    const entry = this.sessions.get(key);
+    if (!entry) return;
+
+    entry.refs--;
+    if (entry.refs <= 0) {
+      this.sessions.delete(key);
+    }
+  }
+
+  /**
+   * Number of distinct Linear sessions currently in use.
+   */
+  get size(): number {
+    return this.sessions.size;
+  }
+}
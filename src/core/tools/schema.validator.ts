@@ -0,0 +1,150 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * The subset of JSON Schema used by the tool input schemas.
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, unknown>;
+  required?: string[];
+  items?: unknown;
+  enum?: unknown[];
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+}
+
+export interface SchemaViolation {
+  /** Location of the invalid value, e.g. `issues[0].title` */
+  path: string;
+  message: string;
+}
+
+const describeType = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  switch (type) {
+    case 'string':
+    case 'boolean':
+      return typeof value === type;
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+};
+
+const joinPath = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+/**
+ * Collects all places where `value` doesn't conform to `schema`.
+ * Unknown keywords (such as `description`) are ignored.
+ */
+export function findSchemaViolations(
+  schema: JsonSchema,
+  value: unknown,
+  path = ''
+): SchemaViolation[] {
+  const at = path || '(arguments)';
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [{ path: at, message: `must be of type ${types.join(' or ')}, got ${describeType(value)}` }];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((allowed) => allowed === value)) {
+    return [{
+      path: at,
+      message: `must be one of ${schema.enum.map((allowed) => JSON.stringify(allowed)).join(', ')}`,
+    }];
+  }
+
+  const violations: SchemaViolation[] = [];
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    violations.push({ path: at, message: `must be at least ${schema.minLength} characters long` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push({ path: at, message: `must be at least ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      violations.push({ path: at, message: `must be at most ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      violations.push({ path: at, message: `must contain at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      violations.push({ path: at, message: `must contain at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        violations.push(
+          ...findSchemaViolations(schema.items as JsonSchema, item, joinPath(path, index))
+        );
+      });
+    }
+  }
+
+  if (matchesType(value, 'object')) {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined || object[key] === null) {
+        violations.push({ path: joinPath(path, key), message: 'is required' });
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+      // Optional properties may be sent as null by some clients
+      if (object[key] === undefined || object[key] === null) continue;
+      violations.push(
+        ...findSchemaViolations(propertySchema as JsonSchema, object[key], joinPath(path, key))
+      );
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Validates tool call arguments against the tool's input schema.
+ * @throws {McpError} InvalidParams naming every invalid argument, with the
+ * violations attached as `data.errors`
+ */
+export function validateToolArguments(
+  toolName: string,
+  schema: JsonSchema,
+  args: unknown
+): void {
+  const violations = findSchemaViolations(schema, args ?? {});
+  if (violations.length === 0) return;
+
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    `Invalid arguments for ${toolName}: ${violations
+      .map(({ path, message }) => `${path} ${message}`)
+      .join('; ')}`,
+    { errors: violations }
+  );
+}
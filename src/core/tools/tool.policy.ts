@@ -0,0 +1,99 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { toolSchemas } from '../types/tool.types.js';
+import { ToolSchema } from './tool.registry.js';
+
+export interface ToolPolicyOptions {
+  /** Only expose tools that don't modify the Linear workspace */
+  readOnly?: boolean;
+  /** Glob patterns (`*`, `?`) of tools to expose. All tools when empty */
+  include?: string[];
+  /** Glob patterns of tools to hide, applied after `include` */
+  exclude?: string[];
+}
+
+/**
+ * Converts a glob pattern into an anchored regular expression.
+ */
+const globToRegExp = (pattern: string): RegExp =>
+  new RegExp(
+    `^${pattern
+      .split('')
+      .map((char) =>
+        char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      )
+      .join('')}$`
+  );
+
+/**
+ * Decides which tools are exposed to clients. The same policy filters the
+ * tool listing and guards tool calls, so hidden tools can't be called by name.
+ *
+ * Patterns are matched against both the full tool name and the name without
+ * TOOL_PREFIX, so `linear_get_*` works for prefixed servers too.
+ */
+export class ToolPolicy {
+  private readonly include: RegExp[];
+  private readonly exclude: RegExp[];
+
+  constructor(private readonly options: ToolPolicyOptions = {}) {
+    this.include = (options.include ?? []).map(globToRegExp);
+    this.exclude = (options.exclude ?? []).map(globToRegExp);
+  }
+
+  get readOnly(): boolean {
+    return !!this.options.readOnly;
+  }
+
+  /**
+   * Whether the tool may be listed and called.
+   */
+  isAllowed(toolName: string): boolean {
+    return this.isSelected(toolName) && this.isPermittedByMode(toolName);
+  }
+
+  /**
+   * Schemas of all tools clients may use.
+   */
+  listTools(): ToolSchema[] {
+    return Object.values(toolSchemas).filter((tool) => this.isAllowed(tool.name));
+  }
+
+  /**
+   * @throws {McpError} If the tool is not allowed by the policy
+   */
+  assertAllowed(toolName: string): void {
+    if (!this.isSelected(toolName)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Tool ${toolName} is disabled by the server's tool configuration`
+      );
+    }
+    if (!this.isPermittedByMode(toolName)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Tool ${toolName} modifies Linear data and is disabled in read-only mode`
+      );
+    }
+  }
+
+  private isSelected(toolName: string): boolean {
+    if (this.include.length > 0 && !this.matches(this.include, toolName)) {
+      return false;
+    }
+    return !this.matches(this.exclude, toolName);
+  }
+
+  private isPermittedByMode(toolName: string): boolean {
+    if (!this.readOnly) return true;
+    return toolSchemas[toolName]?.annotations.readOnlyHint === true;
+  }
+
+  private matches(patterns: RegExp[], toolName: string): boolean {
+    const prefix = process.env.TOOL_PREFIX;
+    const baseName =
+      prefix && toolName.startsWith(`${prefix}_`)
+        ? toolName.slice(prefix.length + 1)
+        : toolName;
+    return patterns.some((pattern) => pattern.test(toolName) || pattern.test(baseName));
+  }
+}
@@ -0,0 +1,137 @@
+import { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { LinearAuth } from '../../auth.js';
+import { LinearGraphQLClient } from '../../graphql/client.js';
+import { BaseHandler } from '../handlers/base.handler.js';
+import { BaseToolResponse } from '../interfaces/tool-handler.interface.js';
+
+/**
+ * Tool annotations telling clients whether a tool modifies the Linear
+ * workspace. Authentication tools only affect the server's own session and
+ * count as read-only.
+ */
+export const READ_ONLY_TOOL: ToolAnnotations = { readOnlyHint: true };
+export const WRITE_TOOL: ToolAnnotations = { readOnlyHint: false, destructiveHint: false };
+export const DESTRUCTIVE_TOOL: ToolAnnotations = { readOnlyHint: false, destructiveHint: true };
+
+export type HandlerClass<H extends BaseHandler = BaseHandler> = new (
+  auth: LinearAuth,
+  graphqlClient?: LinearGraphQLClient
+) => H;
+
+/**
+ * Names of the handler methods that can serve a tool call.
+ */
+export type ToolMethod<H> = {
+  [K in keyof H]: H[K] extends (args: any) => Promise<BaseToolResponse> ? K : never;
+}[keyof H] & string;
+
+/**
+ * Schema of a tool as listed to MCP clients.
+ */
+export interface ToolSchema {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+  annotations: ToolAnnotations;
+  /** Example arguments shown to clients */
+  examples?: Array<{ description: string; value: unknown }>;
+}
+
+/**
+ * A tool as declared by its feature: the schema, without TOOL_PREFIX applied,
+ * plus the handler method serving it.
+ */
+export interface ToolDefinition<H extends BaseHandler = BaseHandler> extends ToolSchema {
+  method: ToolMethod<H>;
+}
+
+/**
+ * The tools of one feature, all served by the same handler class.
+ */
+export interface FeatureTools {
+  handler: HandlerClass;
+  tools: ToolDefinition<any>[];
+}
+
+export interface RegisteredTool {
+  schema: ToolSchema;
+  handler: HandlerClass;
+  method: string;
+}
+
+/**
+ * Declares the tools served by a feature's handler.
+ */
+export const defineTools = <H extends BaseHandler>(
+  handler: HandlerClass<H>,
+  tools: ToolDefinition<H>[]
+): FeatureTools => ({ handler, tools });
+
+const getToolName = (baseName: string): string => {
+  const prefix = process.env.TOOL_PREFIX;
+  return prefix ? `${prefix}_${baseName}` : baseName;
+};
+
+const getToolDescription = (description: string): string => {
+  const prefix = process.env.TOOL_PREFIX;
+  return prefix
+    ? `For '${prefix}' Linear workspace: ${description}`
+    : description;
+};
+
+/**
+ * All tools the server provides, keyed by their (prefixed) name. Each tool is
+ * registered once by its feature, so the listing and dispatch can't drift apart.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, RegisteredTool>();
+
+  constructor(features: FeatureTools[]) {
+    for (const { handler, tools } of features) {
+      for (const { method, ...schema } of tools) {
+        const name = getToolName(schema.name);
+        if (this.tools.has(name)) {
+          throw new Error(`Tool ${name} is registered more than once`);
+        }
+        this.tools.set(name, {
+          schema: {
+            ...schema,
+            name,
+            description: getToolDescription(schema.description),
+          },
+          handler,
+          method,
+        });
+      }
+    }
+  }
+
+  get(toolName: string): RegisteredTool | undefined {
+    return this.tools.get(toolName);
+  }
+
+  /**
+   * Schemas of all registered tools.
+   */
+  get schemas(): ToolSchema[] {
+    return [...this.tools.values()].map((tool) => tool.schema);
+  }
+
+  /**
+   * Checks that every tool can be dispatched to its handler method.
+   * @throws {Error} Listing all tools whose method doesn't exist
+   */
+  validate(): void {
+    const broken = [...this.tools.entries()]
+      .filter(([, tool]) => typeof tool.handler.prototype[tool.method] !== 'function')
+      .map(([name, tool]) => `${name} (${tool.handler.name}.${tool.method})`);
+
+    if (broken.length > 0) {
+      throw new Error(`Tools without a handler method: ${broken.join(', ')}`);
+    }
+  }
+}
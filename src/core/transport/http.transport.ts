@@ -0,0 +1,400 @@
+import { createHash, randomUUID } from 'node:crypto';
+import {
+  createServer as createHttpServer,
+  IncomingMessage,
+  Server as HttpServer,
+  ServerResponse,
+} from 'node:http';
+import { AddressInfo } from 'node:net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { HttpTransportConfig } from '../config/server.config.js';
+
+/**
+ * Legacy HTTP+SSE endpoints, kept for clients that predate Streamable HTTP.
+ */
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/** Longest interval between two checks for idle sessions */
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Raised when a request body exceeds MAX_BODY_BYTES.
+ */
+class PayloadTooLargeError extends Error {
+  constructor() {
+    super('Request body too large');
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+/**
+ * Identifies the client an MCP server instance is created for.
+ */
+export interface HttpSessionContext {
+  sessionId: string;
+  /** Linear token presented as `Authorization: Bearer <token>`, if any */
+  accessToken?: string;
+}
+
+interface HttpSession {
+  server: Server;
+  transport: Transport;
+  /** Hash of the bearer token the session was created with */
+  credential?: string;
+  /** Time of the last request, or of the end of the last open request */
+  lastActivity: number;
+  /** Requests (including SSE streams) currently open */
+  openRequests: number;
+}
+
+/**
+ * Serves MCP over HTTP using the Streamable HTTP transport, with a fallback to
+ * the legacy SSE transport. Every client session gets its own MCP server
+ * instance created through `createServer`, so session state never leaks
+ * between clients. A session stays bound to the bearer token it was created
+ * with; requests presenting a different token are rejected.
+ *
+ * Sessions without open requests are closed once idle for
+ * `config.sessionTimeout`, since Streamable HTTP clients may go away without
+ * ending their session.
+ */
+export class HttpTransportServer {
+  private httpServer?: HttpServer;
+  private sessions = new Map<string, HttpSession>();
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly config: HttpTransportConfig,
+    private readonly createServer: (context: HttpSessionContext) => Server
+  ) {}
+
+  /**
+   * Starts listening and resolves with the bound address.
+   */
+  async listen(): Promise<AddressInfo> {
+    const httpServer = createHttpServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        if (res.headersSent) {
+          console.error('[HTTP Error]', error);
+          return;
+        }
+        if (error instanceof SyntaxError) {
+          this.sendError(res, 400, -32700, 'Parse error');
+          return;
+        }
+        if (error instanceof PayloadTooLargeError) {
+          // The rest of the body is never read, so the connection can't be reused
+          res.setHeader('Connection', 'close');
+          this.sendError(res, 413, -32000, 'Payload Too Large');
+          return;
+        }
+        console.error('[HTTP Error]', error);
+        this.sendError(res, 500, -32603, 'Internal server error');
+      });
+    });
+    this.httpServer = httpServer;
+
+    this.sweepTimer = setInterval(
+      () => this.closeIdleSessions(),
+      Math.min(this.config.sessionTimeout, MAX_SWEEP_INTERVAL_MS)
+    );
+    this.sweepTimer.unref();
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.config.port, this.config.host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    return httpServer.address() as AddressInfo;
+  }
+
+  /**
+   * Closes all open sessions and stops the HTTP listener.
+   */
+  async close(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    this.sweepTimer = undefined;
+
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    await Promise.all(sessions.map(({ server }) => server.close()));
+
+    const httpServer = this.httpServer;
+    if (!httpServer) return;
+    this.httpServer = undefined;
+    httpServer.closeAllConnections();
+    await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+  }
+
+  /**
+   * Number of currently open sessions.
+   */
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  private async handleRequest(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const accessToken = this.getBearerToken(req);
+
+    if (this.config.requireAuth && !accessToken) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.sendError(res, 401, -32001, 'Unauthorized: Linear access token required');
+      return;
+    }
+
+    if (url.pathname === this.config.path) {
+      return this.handleStreamableRequest(req, res, accessToken);
+    }
+    if (url.pathname === SSE_PATH && req.method === 'GET') {
+      return this.handleSseConnect(res, accessToken);
+    }
+    if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      return this.handleSseMessage(
+        req,
+        res,
+        url.searchParams.get('sessionId'),
+        accessToken
+      );
+    }
+
+    this.sendError(res, 404, -32601, 'Not found');
+  }
+
+  private async handleStreamableRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    accessToken: string | undefined
+  ): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+    const body = req.method === 'POST' ? await this.readJsonBody(req) : undefined;
+
+    if (typeof sessionId === 'string') {
+      const session = this.getSession(res, sessionId, accessToken);
+      if (!session) return;
+      if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+        this.sendError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      this.trackRequest(session, res);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      this.sendError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const newSessionId = randomUUID();
+    const server = this.createServer({ sessionId: newSessionId, accessToken });
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => newSessionId,
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, this.createSession(server, transport, accessToken));
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // The session is only registered once initialized. Close servers whose
+      // initialization failed, so the Linear session they hold is released.
+      if (!this.sessions.has(newSessionId)) {
+        await server.close();
+      }
+    }
+  }
+
+  private async handleSseConnect(
+    res: ServerResponse,
+    accessToken: string | undefined
+  ): Promise<void> {
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    const server = this.createServer({ sessionId: transport.sessionId, accessToken });
+    const session = this.createSession(server, transport, accessToken);
+    this.sessions.set(transport.sessionId, session);
+    this.trackRequest(session, res);
+    transport.onclose = () => {
+      this.sessions.delete(transport.sessionId);
+    };
+
+    await server.connect(transport);
+  }
+
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null,
+    accessToken: string | undefined
+  ): Promise<void> {
+    const session = this.getSession(res, sessionId ?? '', accessToken);
+    if (!session) return;
+    if (!(session.transport instanceof SSEServerTransport)) {
+      this.sendError(res, 404, -32001, 'Session not found');
+      return;
+    }
+
+    this.trackRequest(session, res);
+    const body = await this.readJsonBody(req);
+    await session.transport.handlePostMessage(req, res, body);
+  }
+
+  private createSession(
+    server: Server,
+    transport: Transport,
+    accessToken: string | undefined
+  ): HttpSession {
+    return {
+      server,
+      transport,
+      credential: this.hashToken(accessToken),
+      lastActivity: Date.now(),
+      openRequests: 0,
+    };
+  }
+
+  /**
+   * Counts a request as session activity until its response is closed.
+   */
+  private trackRequest(session: HttpSession, res: ServerResponse): void {
+    session.openRequests++;
+    session.lastActivity = Date.now();
+    res.once('close', () => {
+      session.openRequests--;
+      session.lastActivity = Date.now();
+    });
+  }
+
+  /**
+   * Closes the sessions that had no open request for `config.sessionTimeout`.
+   */
+  private closeIdleSessions(): void {
+    const expired = Date.now() - this.config.sessionTimeout;
+    for (const [sessionId, session] of this.sessions) {
+      if (session.openRequests > 0 || session.lastActivity > expired) continue;
+
+      this.sessions.delete(sessionId);
+      session.server.close().catch((error) => {
+        console.error('[HTTP Error] Failed to close idle session', error);
+      });
+    }
+  }
+
+  /**
+   * Looks up a session, making sure the request carries the same credentials
+   * the session was created with. Sends an error response if it doesn't.
+   */
+  private getSession(
+    res: ServerResponse,
+    sessionId: string,
+    accessToken: string | undefined
+  ): HttpSession | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      this.sendError(res, 404, -32001, 'Session not found');
+      return undefined;
+    }
+    if (session.credential !== this.hashToken(accessToken)) {
+      this.sendError(res, 403, -32001, 'Forbidden: credentials do not match session');
+      return undefined;
+    }
+    return session;
+  }
+
+  private getBearerToken(req: IncomingMessage): string | undefined {
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+    return match?.[1].trim() || undefined;
+  }
+
+  private hashToken(token: string | undefined): string | undefined {
+    return token ? createHash('sha256').update(token).digest('hex') : undefined;
+  }
+
+  private async readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const body = await this.readBody(req);
+    if (body.length === 0) return undefined;
+
+    // Throws SyntaxError on malformed bodies, reported as a JSON-RPC parse error
+    return JSON.parse(body.toString('utf8'));
+  }
+
+  /**
+   * Reads the request body, up to MAX_BODY_BYTES. Larger bodies are rejected
+   * with a PayloadTooLargeError as soon as they cross the limit, without
+   * reading the rest of them.
+   */
+  private readBody(req: IncomingMessage): Promise<Buffer> {
+    if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+      return Promise.reject(new PayloadTooLargeError());
+    }
+
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      const cleanup = () => {
+        req.off('data', onData);
+        req.off('end', onEnd);
+        req.off('error', onError);
+      };
+      const onData = (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          cleanup();
+          req.pause();
+          reject(new PayloadTooLargeError());
+          return;
+        }
+        chunks.push(chunk);
+      };
+      const onEnd = () => {
+        cleanup();
+        resolve(Buffer.concat(chunks));
+      };
+      const onError = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+
+      req.on('data', onData);
+      req.on('end', onEnd);
+      req.on('error', onError);
+    });
+  }
+
+  private sendError(
+    res: ServerResponse,
+    status: number,
+    code: number,
+    message: string
+  ): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        error: { code, message },
+        id: null,
+      })
+    );
+  }
+}
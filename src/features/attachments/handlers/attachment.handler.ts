@@ -0,0 +1,217 @@
+import { BaseHandler } from "../../../core/handlers/base.handler.js";
+import { BaseToolResponse } from "../../../core/interfaces/tool-handler.interface.js";
+import { NotFoundError, ValidationError } from "../../../core/errors/linear.errors.js";
+import { LinearAuth } from "../../../auth.js";
+import { LinearGraphQLClient } from "../../../graphql/client.js";
+import { IssueResolver } from "../../issues/resolvers/issue.resolver.js";
+import {
+  AttachmentHandlerMethods,
+  CreateAttachmentInput,
+  CreateAttachmentResponse,
+  DeleteAttachmentInput,
+  GetIssueAttachmentsInput,
+  LinkPullRequestInput,
+  PullRequestReference,
+  UpdateAttachmentInput,
+} from "../types/attachment.types.js";
+
+/** How pull requests are named and numbered, by provider */
+const PROVIDERS = {
+  github: { subtitle: "GitHub pull request", separator: "#" },
+  gitlab: { subtitle: "GitLab merge request", separator: "!" },
+} as const;
+
+/**
+ * Reads a GitHub pull request or GitLab merge request URL, such as
+ * https://github.com/acme/shop/pull/12 or
+ * https://gitlab.com/acme/web/shop/-/merge_requests/12, on any host.
+ */
+export function parsePullRequestUrl(value: string): PullRequestReference | undefined {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return undefined;
+  }
+
+  const gitlab = url.pathname.match(/^\/(.+)\/([^/]+)\/-\/merge_requests\/(\d+)(\/|$)/);
+  if (gitlab) {
+    const [, owner, repo, number] = gitlab;
+    return { provider: "gitlab", host: url.host, owner, repo, number: Number(number) };
+  }
+
+  const github = url.pathname.match(/^\/([^/]+)\/([^/]+)\/pull\/(\d+)(\/|$)/);
+  if (github) {
+    const [, owner, repo, number] = github;
+    return { provider: "github", host: url.host, owner, repo, number: Number(number) };
+  }
+
+  return undefined;
+}
+
+/**
+ * Handler for issue attachments: links to pull requests, documents and any
+ * other URL.
+ */
+export class AttachmentHandler extends BaseHandler implements AttachmentHandlerMethods {
+  constructor(auth: LinearAuth, graphqlClient?: LinearGraphQLClient) {
+    super(auth, graphqlClient);
+  }
+
+  /**
+   * Lists the attachments of an issue.
+   */
+  async handleGetIssueAttachments(args: GetIssueAttachmentsInput): Promise<BaseToolResponse> {
+    try {
+      const client = await this.verifyAuth();
+      this.validateRequiredParams(args, ["issueId"]);
+
+      const id = await new IssueResolver(client).resolveId(args.issueId);
+      const { issue } = await client.getIssueAttachments(id);
+      if (!issue) {
+        throw new NotFoundError(`Issue ${args.issueId} not found`, { field: "issueId" });
+      }
+
+      return this.createJsonResponse({
+        issue: issue.identifier,
+        attachments: issue.attachments.nodes,
+      });
+    } catch (error) {
+      return this.handleError(error, "get issue attachments");
+    }
+  }
+
+  /**
+   * Attaches a URL to an issue, with a title, subtitle and metadata.
+   */
+  async handleCreateAttachment(args: CreateAttachmentInput): Promise<BaseToolResponse> {
+    try {
+      const client = await this.verifyAuth('write');
+      this.validateRequiredParams(args, ["issueId", "url", "title"]);
+      this.validateUrl(args.url, "url");
+      this.validateMetadata(args.metadata);
+
+      const issueId = await new IssueResolver(client).resolveId(args.issueId);
+      const result = await client.createAttachment({
+        issueId,
+        url: args.url,
+        title: args.title,
+        subtitle: args.subtitle,
+        metadata: args.metadata,
+        iconUrl: args.iconUrl,
+      });
+
+      return this.createAttachmentResponse(result);
+    } catch (error) {
+      return this.handleError(error, "create attachment");
+    }
+  }
+
+  /**
+   * Updates the title, subtitle, metadata or icon of an attachment.
+   */
+  async handleUpdateAttachment(args: UpdateAttachmentInput): Promise<BaseToolResponse> {
+    try {
+      const client = await this.verifyAuth('write');
+      this.validateRequiredParams(args, ["id"]);
+      this.validateMetadata(args.metadata);
+
+      const { id, title, ...fields } = args;
+      if (title === undefined && Object.values(fields).every((value) => value === undefined)) {
+        throw new ValidationError(
+          "Nothing to update: pass a title, subtitle, metadata or iconUrl"
+        );
+      }
+
+      // Linear requires the title on every update
+      const currentTitle = title ?? (await client.getAttachment(id)).attachment.title;
+      const result = await client.updateAttachment(id, { title: currentTitle, ...fields });
+
+      if (!result.attachmentUpdate.success) {
+        throw new Error("Failed to update attachment");
+      }
+
+      return this.createJsonResponse(result.attachmentUpdate.attachment);
+    } catch (error) {
+      return this.handleError(error, "update attachment");
+    }
+  }
+
+  /**
+   * Deletes an attachment.
+   */
+  async handleDeleteAttachment(args: DeleteAttachmentInput): Promise<BaseToolResponse> {
+    try {
+      const client = await this.verifyAuth('write');
+      this.validateRequiredParams(args, ["id"]);
+
+      const result = await client.deleteAttachment(args.id);
+
+      if (!result.attachmentDelete.success) {
+        throw new Error("Failed to delete attachment");
+      }
+
+      return this.createResponse(`Successfully deleted attachment ${args.id}`);
+    } catch (error) {
+      return this.handleError(error, "delete attachment");
+    }
+  }
+
+  /**
+   * Attaches a GitHub pull request or GitLab merge request to an issue, named
+   * after its repository and number, with them as metadata.
+   */
+  async handleLinkPullRequest(args: LinkPullRequestInput): Promise<BaseToolResponse> {
+    try {
+      const client = await this.verifyAuth('write');
+      this.validateRequiredParams(args, ["issueId", "url"]);
+
+      const pullRequest = parsePullRequestUrl(args.url);
+      if (!pullRequest) {
+        throw new ValidationError(
+          `${args.url} is not a GitHub pull request or GitLab merge request URL`,
+          { field: "url" }
+        );
+      }
+
+      const { provider, owner, repo, number } = pullRequest;
+      const { subtitle, separator } = PROVIDERS[provider];
+      const issueId = await new IssueResolver(client).resolveId(args.issueId);
+      const result = await client.createAttachment({
+        issueId,
+        url: args.url,
+        title: args.title ?? `${owner}/${repo}${separator}${number}`,
+        subtitle,
+        metadata: { ...pullRequest },
+      });
+
+      return this.createAttachmentResponse(result);
+    } catch (error) {
+      return this.handleError(error, "link pull request");
+    }
+  }
+
+  private createAttachmentResponse(result: CreateAttachmentResponse): BaseToolResponse {
+    if (!result.attachmentCreate.success) {
+      throw new Error("Failed to create attachment");
+    }
+    return this.createJsonResponse(result.attachmentCreate.attachment);
+  }
+
+  private validateUrl(value: string, field: string): void {
+    try {
+      new URL(value);
+    } catch {
+      throw new ValidationError(`${field} must be an absolute URL`, { field });
+    }
+  }
+
+  private validateMetadata(metadata: unknown): void {
+    if (
+      metadata !== undefined &&
+      (typeof metadata !== "object" || metadata === null || Array.isArray(metadata))
+    ) {
+      throw new ValidationError("metadata must be an object", { field: "metadata" });
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import {
+  defineTools,
+  READ_ONLY_TOOL,
+  WRITE_TOOL,
+  DESTRUCTIVE_TOOL,
+} from "../../../core/tools/tool.registry.js";
+import { AttachmentHandler } from "../handlers/attachment.handler.js";
+
+/**
+ * Tools for issue attachments: pull requests, documents and other links.
+ */
+export const attachmentTools = defineTools(AttachmentHandler, [
+  {
+    name: "linear_get_issue_attachments",
+    method: "handleGetIssueAttachments",
+    description: "List the attachments of an issue: linked pull requests, documents and URLs",
+    inputSchema: {
+      type: "object",
+      properties: {
+        issueId: {
+          type: "string",
+          description: "Issue UUID or identifier (e.g. 'ENG-123')",
+        },
+      },
+      required: ["issueId"],
+    },
+    annotations: READ_ONLY_TOOL,
+  },
+
+  {
+    name: "linear_create_attachment",
+    method: "handleCreateAttachment",
+    description:
+      "Attach a URL to an issue. Attaching a URL the issue already has updates that attachment",
+    inputSchema: {
+      type: "object",
+      properties: {
+        issueId: {
+          type: "string",
+          description: "Issue UUID or identifier (e.g. 'ENG-123')",
+        },
+        url: {
+          type: "string",
+          description: "URL to attach",
+        },
+        title: {
+          type: "string",
+          description: "Title of the attachment",
+        },
+        subtitle: {
+          type: "string",
+          description: "Subtitle of the attachment",
+          optional: true,
+        },
+        metadata: {
+          type: "object",
+          description: "Key-value metadata to store with the attachment",
+          optional: true,
+        },
+        iconUrl: {
+          type: "string",
+          description: "URL of the icon to display for the attachment",
+          optional: true,
+        },
+      },
+      required: ["issueId", "url", "title"],
+    },
+    annotations: WRITE_TOOL,
+  },
+
+  {
+    name: "linear_update_attachment",
+    method: "handleUpdateAttachment",
+    description: "Update the title, subtitle, metadata or icon of an attachment",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Attachment ID, as listed by linear_get_issue_attachments",
+        },
+        title: {
+          type: "string",
+          description: "New title",
+          optional: true,
+        },
+        subtitle: {
+          type: "string",
+          description: "New subtitle",
+          optional: true,
+        },
+        metadata: {
+          type: "object",
+          description: "New metadata, replacing the current metadata",
+          optional: true,
+        },
+        iconUrl: {
+          type: "string",
+          description: "URL of the new icon",
+          optional: true,
+        },
+      },
+      required: ["id"],
+    },
+    annotations: WRITE_TOOL,
+  },
+
+  {
+    name: "linear_delete_attachment",
+    method: "handleDeleteAttachment",
+    description: "Remove an attachment from its issue",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Attachment ID, as listed by linear_get_issue_attachments",
+        },
+      },
+      required: ["id"],
+    },
+    annotations: DESTRUCTIVE_TOOL,
+  },
+
+  {
+    name: "linear_link_pull_request",
+    method: "handleLinkPullRequest",
+    description:
+      "Attach a GitHub pull request or GitLab merge request to an issue, titled after its repository and number (e.g. 'acme/shop#12') with the provider, repository and number as metadata",
+    inputSchema: {
+      type: "object",
+      properties: {
+        issueId: {
+          type: "string",
+          description: "Issue UUID or identifier (e.g. 'ENG-123')",
+        },
+        url: {
+          type: "string",
+          description:
+            "Pull request or merge request URL, e.g. https://github.com/acme/shop/pull/12 or https://gitlab.com/acme/shop/-/merge_requests/12",
+        },
+        title: {
+          type: "string",
+          description: "Title of the attachment, instead of the repository and number",
+          optional: true,
+        },
+      },
+      required: ["issueId", "url"],
+    },
+    annotations: WRITE_TOOL,
+  },
+]);
@@ -0,0 +1,113 @@
+import { BaseToolResponse } from "../../../core/interfaces/tool-handler.interface.js";
+
+/**
+ * Input types for attachment operations
+ */
+
+export interface GetIssueAttachmentsInput {
+  issueId: string; // UUID or identifier
+}
+
+export interface CreateAttachmentInput {
+  issueId: string; // UUID or identifier
+  url: string;
+  title: string;
+  subtitle?: string;
+  metadata?: Record<string, unknown>;
+  iconUrl?: string;
+}
+
+export interface UpdateAttachmentInput {
+  id: string;
+  title?: string;
+  subtitle?: string;
+  metadata?: Record<string, unknown>;
+  iconUrl?: string;
+}
+
+export interface DeleteAttachmentInput {
+  id: string;
+}
+
+export interface LinkPullRequestInput {
+  issueId: string; // UUID or identifier
+  url: string; // GitHub pull request or GitLab merge request URL
+  title?: string; // Defaults to the repository and number, e.g. "acme/shop#12"
+}
+
+/**
+ * A GitHub pull request or GitLab merge request, as read from its URL.
+ * GitLab owners are the full group path of the project.
+ */
+export interface PullRequestReference {
+  provider: "github" | "gitlab";
+  host: string;
+  owner: string;
+  repo: string;
+  number: number;
+}
+
+/**
+ * Response types for attachment operations
+ */
+
+export interface Attachment {
+  id: string;
+  title: string;
+  subtitle?: string;
+  url: string;
+  sourceType?: string;
+  metadata?: Record<string, unknown>;
+  createdAt: string;
+  updatedAt: string;
+  creator?: {
+    id: string;
+    name: string;
+  };
+}
+
+export interface IssueAttachmentsResponse {
+  issue: {
+    id: string;
+    identifier: string;
+    attachments: {
+      nodes: Attachment[];
+    };
+  } | null;
+}
+
+export interface AttachmentResponse {
+  attachment: Attachment;
+}
+
+export interface CreateAttachmentResponse {
+  attachmentCreate: {
+    success: boolean;
+    attachment: Attachment;
+  };
+}
+
+export interface UpdateAttachmentResponse {
+  attachmentUpdate: {
+    success: boolean;
+    attachment: Attachment;
+  };
+}
+
+export interface DeleteAttachmentResponse {
+  attachmentDelete: {
+    success: boolean;
+  };
+}
+
+/**
+ * Handler method types
+ */
+
+export interface AttachmentHandlerMethods {
+  handleGetIssueAttachments(args: GetIssueAttachmentsInput): Promise<BaseToolResponse>;
+  handleCreateAttachment(args: CreateAttachmentInput): Promise<BaseToolResponse>;
+  handleUpdateAttachment(args: UpdateAttachmentInput): Promise<BaseToolResponse>;
+  handleDeleteAttachment(args: DeleteAttachmentInput): Promise<BaseToolResponse>;
+  handleLinkPullRequest(args: LinkPullRequestInput): Promise<BaseToolResponse>;
+}
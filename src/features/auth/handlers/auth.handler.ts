@@ -1,53 +1,129 @@
 import { BaseHandler } from '../../../core/handlers/base.handler.js';
 import { BaseToolResponse } from '../../../core/interfaces/tool-handler.interface.js';
-import { LinearAuth } from '../../../auth.js';
+import { LinearAuth, LinearScope, parseScopeList } from '../../../auth.js';
 import { LinearGraphQLClient } from '../../../graphql/client.js';
+import { OAuthCallbackListener } from '../../../core/auth/oauth-callback.listener.js';
 
 /**
  * Handler for authentication-related operations.
  * Manages both OAuth and Personal Access Token (PAT) authentication flows.
  */
 export class AuthHandler extends BaseHandler {
+  /**
+   * Loopback listeners awaiting an OAuth callback, by session. Kept outside
+   * the instance since a session's handlers are rebuilt once it authenticates.
+   */
+  private static loopbackListeners = new WeakMap<LinearAuth, OAuthCallbackListener>();
+
   constructor(auth: LinearAuth, graphqlClient?: LinearGraphQLClient) {
     super(auth, graphqlClient);
   }
 
   /**
-   * Initializes OAuth flow with Linear.
+   * Initializes OAuth flow with Linear. With `loopback` set, a local listener
+   * on the redirect URI receives the callback and completes the flow.
+   * Scopes and actor default to LINEAR_OAUTH_SCOPES and LINEAR_OAUTH_ACTOR.
    */
   async handleAuth(args: any): Promise<BaseToolResponse> {
     try {
       this.validateRequiredParams(args, ['clientId', 'clientSecret', 'redirectUri']);
 
+      const listener = args.loopback
+        ? new OAuthCallbackListener(args.redirectUri, (code, state) =>
+            this.auth.handleCallback(code, state)
+          )
+        : undefined;
+
       this.auth.initialize({
         type: 'oauth',
         clientId: args.clientId,
         clientSecret: args.clientSecret,
         redirectUri: args.redirectUri,
+        scopes: parseScopeList(args.scopes ?? process.env.LINEAR_OAUTH_SCOPES) as
+          | LinearScope[]
+          | undefined,
+        actor: args.actor ?? (process.env.LINEAR_OAUTH_ACTOR || undefined),
       });
 
       const authUrl = this.auth.getAuthorizationUrl();
 
+      if (!listener) {
+        return this.createResponse(
+          `Please visit the following URL to authorize the application:\n${authUrl}`
+        );
+      }
+
+      await AuthHandler.loopbackListeners.get(this.auth)?.close();
+      await listener.listen();
+      AuthHandler.loopbackListeners.set(this.auth, listener);
+
       return this.createResponse(
-        `Please visit the following URL to authorize the application:\n${authUrl}`
+        `Please visit the following URL to authorize the application:\n${authUrl}\n\n` +
+        'Authentication completes automatically once access is granted. ' +
+        'Call linear_auth_callback without a code to wait for it.'
       );
     } catch (error) {
-      this.handleError(error, 'initialize authentication');
+      return this.handleError(error, 'initialize authentication');
     }
   }
 
   /**
-   * Handles OAuth callback after user authorization.
+   * Handles OAuth callback after user authorization. Without a code, waits for
+   * a pending loopback authorization to complete.
    */
   async handleAuthCallback(args: any): Promise<BaseToolResponse> {
     try {
-      this.validateRequiredParams(args, ['code']);
+      const listener = AuthHandler.loopbackListeners.get(this.auth);
+      if (!args?.code && listener) {
+        try {
+          await listener.completion;
+        } finally {
+          AuthHandler.loopbackListeners.delete(this.auth);
+        }
+        return this.createResponse('Successfully authenticated with Linear');
+      }
+
+      this.validateRequiredParams(args, ['code', 'state']);
 
-      await this.auth.handleCallback(args.code);
+      await this.auth.handleCallback(args.code, args.state);
 
       return this.createResponse('Successfully authenticated with Linear');
     } catch (error) {
-      this.handleError(error, 'handle authentication callback');
+      return this.handleError(error, 'handle authentication callback');
+    }
+  }
+
+  /**
+   * Revokes the OAuth token and drops the session's credentials.
+   */
+  async handleLogout(_args: any): Promise<BaseToolResponse> {
+    try {
+      await AuthHandler.loopbackListeners.get(this.auth)?.close();
+      AuthHandler.loopbackListeners.delete(this.auth);
+
+      const { revoked, revokeError } = await this.auth.logout();
+
+      if (revokeError) {
+        return this.createResponse(
+          `Logged out locally, but revoking the OAuth token failed: ${revokeError}`
+        );
+      }
+      return this.createResponse(
+        revoked ? 'Revoked the OAuth token and logged out' : 'Logged out'
+      );
+    } catch (error) {
+      return this.handleError(error, 'log out');
+    }
+  }
+
+  /**
+   * Reports the current authentication mode, token expiry and scopes.
+   */
+  async handleAuthStatus(_args: any): Promise<BaseToolResponse> {
+    try {
+      return this.createJsonResponse(this.auth.getStatus());
+    } catch (error) {
+      return this.handleError(error, 'get authentication status');
     }
   }
 }
@@ -0,0 +1,99 @@
+import { LINEAR_OAUTH_SCOPES } from "../../../auth.js";
+import { defineTools, DESTRUCTIVE_TOOL, READ_ONLY_TOOL } from "../../../core/tools/tool.registry.js";
+import { AuthHandler } from "../handlers/auth.handler.js";
+
+/**
+ * Tools for authentication operations.
+ */
+export const authTools = defineTools(AuthHandler, [
+  {
+    name: "linear_auth",
+    method: "handleAuth",
+    description: "Initialize OAuth flow with Linear",
+    inputSchema: {
+      type: "object",
+      properties: {
+        clientId: {
+          type: "string",
+          description: "Linear OAuth client ID",
+        },
+        clientSecret: {
+          type: "string",
+          description: "Linear OAuth client secret",
+        },
+        redirectUri: {
+          type: "string",
+          description: "OAuth redirect URI",
+        },
+        scopes: {
+          type: "array",
+          items: {
+            type: "string",
+            enum: [...LINEAR_OAUTH_SCOPES],
+          },
+          description:
+            "OAuth scopes to request (default: read, write, issues:create, offline_access)",
+        },
+        actor: {
+          type: "string",
+          enum: ["user", "application"],
+          description:
+            "Act as the authorizing user or as the OAuth application (default: application)",
+        },
+        loopback: {
+          type: "boolean",
+          description:
+            "Listen on the redirect URI (http://localhost only) and complete the flow automatically",
+        },
+      },
+      required: ["clientId", "clientSecret", "redirectUri"],
+    },
+    annotations: READ_ONLY_TOOL,
+  },
+
+  {
+    name: "linear_auth_callback",
+    method: "handleAuthCallback",
+    description: "Handle OAuth callback",
+    inputSchema: {
+      type: "object",
+      properties: {
+        code: {
+          type: "string",
+          description:
+            "OAuth authorization code. Omit to wait for a loopback authorization started with linear_auth",
+        },
+        state: {
+          type: "string",
+          description: "OAuth state returned with the authorization code",
+        },
+      },
+      required: [],
+    },
+    annotations: READ_ONLY_TOOL,
+  },
+
+  {
+    name: "linear_logout",
+    method: "handleLogout",
+    description:
+      "Revoke the OAuth token and drop the stored Linear credentials. Not available in read-only mode",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    annotations: DESTRUCTIVE_TOOL,
+  },
+
+  {
+    name: "linear_auth_status",
+    method: "handleAuthStatus",
+    description:
+      "Get the authentication mode (OAuth, PAT or API key), token expiry and scopes",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    annotations: READ_ONLY_TOOL,
+  },
+]);
@@ -0,0 +1,41 @@
+import { BaseHandler } from '../../../core/handlers/base.handler.js';
+import { BaseToolResponse } from '../../../core/interfaces/tool-handler.interface.js';
+import { LinearAuth } from '../../../auth.js';
+import { CachedData, LinearGraphQLClient } from '../../../graphql/client.js';
+
+export interface RefreshCacheInput {
+  /** Cached data to drop. All of it when omitted */
+  data?: CachedData[];
+}
+
+/**
+ * Handler for the cache of reference data (teams, users, projects).
+ */
+export class CacheHandler extends BaseHandler {
+  constructor(auth: LinearAuth, graphqlClient?: LinearGraphQLClient) {
+    super(auth, graphqlClient);
+  }
+
+  /**
+   * Drops cached data, so the next lookup fetches it from Linear again.
+   */
+  async handleRefreshCache(args: RefreshCacheInput): Promise<BaseToolResponse> {
+    try {
+      const client = await this.verifyAuth();
+
+      if (!client.cacheEnabled) {
+        return this.createResponse('Caching is disabled, all data is fetched from Linear');
+      }
+
+      await client.clearCache(args?.data);
+
+      return this.createResponse(
+        args?.data?.length
+          ? `Cleared the cached ${args.data.join(', ')}`
+          : 'Cleared all cached data'
+      );
+    } catch (error) {
+      return this.handleError(error, 'refresh cache');
+    }
+  }
+}
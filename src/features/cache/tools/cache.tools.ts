@@ -0,0 +1,29 @@
+import { CACHED_DATA } from "../../../graphql/client.js";
+import { defineTools, READ_ONLY_TOOL } from "../../../core/tools/tool.registry.js";
+import { CacheHandler } from "../handlers/cache.handler.js";
+
+/**
+ * Tools for the reference data cache.
+ */
+export const cacheTools = defineTools(CacheHandler, [
+  {
+    name: "linear_refresh_cache",
+    method: "handleRefreshCache",
+    description:
+      "Drop cached teams (with their states and labels), users and projects, e.g. after they were changed in Linear. Data changed through this server is refreshed automatically",
+    inputSchema: {
+      type: "object",
+      properties: {
+        data: {
+          type: "array",
+          items: {
+            type: "string",
+            enum: Object.keys(CACHED_DATA),
+          },
+          description: "Cached data to drop (default: all)",
+        },
+      },
+    },
+    annotations: READ_ONLY_TOOL,
+  },
+]);
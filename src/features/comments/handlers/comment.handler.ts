@@ -16,15 +16,21 @@ import {
   UNRESOLVE_COMMENT,
   CREATE_CUSTOMER_NEED_FROM_ATTACHMENT,
 } from "../../../graphql/mutations/comment.mutations.js";
+import { IssueResolver } from "../../issues/resolvers/issue.resolver.js";
+import { embedFiles, uploadFiles } from "../../files/handlers/file.handler.js";
 
 export class CommentHandler extends BaseHandler {
   async handleCommentCreate(
     args: CommentCreateInput
   ): Promise<BaseToolResponse> {
     try {
-      const client = this.verifyAuth();
+      const client = await this.verifyAuth('comments:create');
       this.validateRequiredParams(args, ["body", "issueId"]);
 
+      const issueId = await new IssueResolver(client).resolveId(args.issueId);
+      const body = args.files?.length
+        ? embedFiles(args.body, await uploadFiles(client, args.files))
+        : args.body;
       const response = await client.execute<{
         commentCreate: {
           success: boolean;
@@ -37,8 +43,8 @@ export class CommentHandler extends BaseHandler {
         };
       }>(CREATE_COMMENT, {
         input: {
-          body: args.body,
-          issueId: args.issueId,
+          body,
+          issueId,
         },
       });
 
@@ -53,7 +59,7 @@ export class CommentHandler extends BaseHandler {
     input: CommentUpdateInput;
   }): Promise<BaseToolResponse> {
     try {
-      const client = this.verifyAuth();
+      const client = await this.verifyAuth('write');
       this.validateRequiredParams(args, ["id", "input"]);
       this.validateRequiredParams(args.input, ["body"]);
 
@@ -82,7 +88,7 @@ export class CommentHandler extends BaseHandler {
     args: CommentDeleteInput
   ): Promise<BaseToolResponse> {
     try {
-      const client = this.verifyAuth();
+      const client = await this.verifyAuth('write');
       this.validateRequiredParams(args, ["id"]);
 
       const response = await client.execute<{
@@ -104,7 +110,7 @@ export class CommentHandler extends BaseHandler {
     args: CommentResolveInput
   ): Promise<BaseToolResponse> {
     try {
-      const client = this.verifyAuth();
+      const client = await this.verifyAuth('write');
       this.validateRequiredParams(args, ["id"]);
 
       const response = await client.execute<{
@@ -132,7 +138,7 @@ export class CommentHandler extends BaseHandler {
     args: CommentUnresolveInput
   ): Promise<BaseToolResponse> {
     try {
-      const client = this.verifyAuth();
+      const client = await this.verifyAuth('write');
       this.validateRequiredParams(args, ["id"]);
 
       const response = await client.execute<{
@@ -159,7 +165,7 @@ export class CommentHandler extends BaseHandler {
     args: CustomerNeedCreateFromAttachmentInput
   ): Promise<BaseToolResponse> {
     try {
-      const client = this.verifyAuth();
+      const client = await this.verifyAuth('write');
       this.validateRequiredParams(args, ["attachmentId"]);
 
       const response = await client.execute<{
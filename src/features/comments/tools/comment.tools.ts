@@ -0,0 +1,145 @@
+import { defineTools, WRITE_TOOL, DESTRUCTIVE_TOOL } from "../../../core/tools/tool.registry.js";
+import { CommentHandler } from "../handlers/comment.handler.js";
+import { EMBEDDED_FILES_SCHEMA } from "../../files/tools/file.tools.js";
+
+/**
+ * Tools for comment and customer need operations.
+ */
+export const commentTools = defineTools(CommentHandler, [
+  {
+    name: "linear_create_comment",
+    method: "handleCommentCreate",
+    description: "Creates a new comment on an issue",
+    inputSchema: {
+      type: "object",
+      properties: {
+        body: {
+          type: "string",
+          description: "Comment text content",
+        },
+        issueId: {
+          type: "string",
+          description: "ID or identifier (e.g. 'ENG-123') of the issue to comment on",
+        },
+        files: EMBEDDED_FILES_SCHEMA,
+      },
+      required: ["body", "issueId"],
+    },
+    annotations: WRITE_TOOL,
+  },
+
+  {
+    name: "linear_update_comment",
+    method: "handleCommentUpdate",
+    description: "Updates an existing comment",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Comment ID",
+        },
+        input: {
+          type: "object",
+          properties: {
+            body: {
+              type: "string",
+              description: "Updated comment text",
+            },
+          },
+          required: ["body"],
+        },
+      },
+      required: ["id", "input"],
+    },
+    annotations: WRITE_TOOL,
+  },
+
+  {
+    name: "linear_delete_comment",
+    method: "handleCommentDelete",
+    description: "Deletes a comment",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Comment ID to delete",
+        },
+      },
+      required: ["id"],
+    },
+    annotations: DESTRUCTIVE_TOOL,
+  },
+
+  {
+    name: "linear_resolve_comment",
+    method: "handleCommentResolve",
+    description: "Resolves a comment",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Comment ID to resolve",
+        },
+        resolvingCommentId: {
+          type: "string",
+          description: "Optional ID of a resolving comment",
+          optional: true,
+        },
+      },
+      required: ["id"],
+    },
+    annotations: WRITE_TOOL,
+  },
+
+  {
+    name: "linear_unresolve_comment",
+    method: "handleCommentUnresolve",
+    description: "Unresolves a comment",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Comment ID to unresolve",
+        },
+      },
+      required: ["id"],
+    },
+    annotations: WRITE_TOOL,
+  },
+
+  {
+    name: "linear_create_customer_need_from_attachment",
+    method: "handleCustomerNeedCreateFromAttachment",
+    description: "Creates a new customer need from an attachment",
+    inputSchema: {
+      type: "object",
+      properties: {
+        attachmentId: {
+          type: "string",
+          description: "ID of the attachment",
+        },
+        title: {
+          type: "string",
+          description: "Title for the customer need",
+          optional: true,
+        },
+        description: {
+          type: "string",
+          description: "Description for the customer need",
+          optional: true,
+        },
+        teamId: {
+          type: "string",
+          description: "Team ID for the customer need",
+          optional: true,
+        },
+      },
+      required: ["attachmentId"],
+    },
+    annotations: WRITE_TOOL,
+  },
+]);
@@ -1,6 +1,9 @@
+import { FileInput } from "../../files/types/file.types.js";
+
 export interface CommentCreateInput {
   body: string;
   issueId: string;
+  files?: FileInput[]; // Uploaded and embedded at the end of the body
 }
 
 export interface CommentUpdateInput {
@@ -0,0 +1,160 @@
+import { readFile, realpath } from "node:fs/promises";
+import { basename, extname, isAbsolute, relative, resolve } from "node:path";
+import { BaseHandler } from "../../../core/handlers/base.handler.js";
+import { BaseToolResponse } from "../../../core/interfaces/tool-handler.interface.js";
+import { ValidationError } from "../../../core/errors/linear.errors.js";
+import { LinearAuth } from "../../../auth.js";
+import { LinearGraphQLClient } from "../../../graphql/client.js";
+import {
+  FileHandlerMethods,
+  FileInput,
+  UploadFileInput,
+  UploadedFile,
+} from "../types/file.types.js";
+
+/** Content types by file extension, for files given without one */
+const CONTENT_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".pdf": "application/pdf",
+  ".json": "application/json",
+  ".csv": "text/csv",
+  ".md": "text/markdown",
+  ".txt": "text/plain",
+  ".log": "text/plain",
+  ".zip": "application/zip",
+  ".mp4": "video/mp4",
+  ".mov": "video/quicktime",
+};
+
+const BASE64 = /^[A-Za-z0-9+/\s]*={0,2}\s*$/;
+
+/**
+ * Reads a file to upload, from LINEAR_UPLOAD_DIR or its base64 content.
+ * Local files are only read when LINEAR_UPLOAD_DIR is set, and only from
+ * inside it, since clients of a shared server could otherwise upload any
+ * file the server can read.
+ */
+async function readFileInput(
+  file: FileInput,
+  field: string
+): Promise<{ filename: string; contentType: string; data: Buffer }> {
+  if ((file.path === undefined) === (file.content === undefined)) {
+    throw new ValidationError("Pass either the path or the base64 content of the file", {
+      field,
+    });
+  }
+
+  let data: Buffer;
+  let filename = file.filename;
+  if (file.path !== undefined) {
+    const uploadDir = process.env.LINEAR_UPLOAD_DIR;
+    if (!uploadDir) {
+      throw new ValidationError(
+        "Uploading local files is disabled. Set LINEAR_UPLOAD_DIR to the directory " +
+          "they may be read from, or pass the content of the file",
+        { field: `${field}.path` }
+      );
+    }
+
+    let path: string;
+    try {
+      const root = await realpath(uploadDir);
+      path = await realpath(resolve(root, file.path));
+      const inside = relative(root, path);
+      if (inside.startsWith("..") || isAbsolute(inside)) {
+        throw new ValidationError(`${file.path} is outside of LINEAR_UPLOAD_DIR`, {
+          field: `${field}.path`,
+        });
+      }
+      data = await readFile(path);
+    } catch (error) {
+      if (error instanceof ValidationError) throw error;
+      throw new ValidationError(
+        `Unable to read ${file.path}: ${error instanceof Error ? error.message : error}`,
+        { field: `${field}.path` }
+      );
+    }
+    filename ??= basename(path);
+  } else {
+    if (!filename) {
+      throw new ValidationError("A filename is required with the content of a file", {
+        field: `${field}.filename`,
+      });
+    }
+    if (!BASE64.test(file.content!)) {
+      throw new ValidationError("The content of the file must be base64 encoded", {
+        field: `${field}.content`,
+      });
+    }
+    data = Buffer.from(file.content!, "base64");
+  }
+
+  const contentType =
+    file.contentType ??
+    CONTENT_TYPES[extname(filename).toLowerCase()] ??
+    "application/octet-stream";
+  return { filename, contentType, data };
+}
+
+/**
+ * Uploads files to Linear's storage, one after the other.
+ */
+export async function uploadFiles(
+  client: LinearGraphQLClient,
+  files: FileInput[],
+  field = "files"
+): Promise<UploadedFile[]> {
+  const uploads: UploadedFile[] = [];
+  for (const [index, file] of files.entries()) {
+    uploads.push(await client.uploadFile(await readFileInput(file, `${field}[${index}]`)));
+  }
+  return uploads;
+}
+
+/**
+ * Markdown showing an uploaded file: the image itself, or a link to it.
+ */
+export function toMarkdown(file: UploadedFile): string {
+  const link = `[${file.filename.replace(/[[\]]/g, "\\$&")}](${file.assetUrl})`;
+  return file.contentType.startsWith("image/") ? `!${link}` : link;
+}
+
+/**
+ * Appends uploaded files to a markdown text, one per line.
+ */
+export function embedFiles(markdown: string, files: UploadedFile[]): string {
+  if (files.length === 0) {
+    return markdown;
+  }
+  const embedded = files.map(toMarkdown).join("\n");
+  return markdown ? `${markdown}\n\n${embedded}` : embedded;
+}
+
+/**
+ * Handler for files uploaded to Linear's storage.
+ */
+export class FileHandler extends BaseHandler implements FileHandlerMethods {
+  constructor(auth: LinearAuth, graphqlClient?: LinearGraphQLClient) {
+    super(auth, graphqlClient);
+  }
+
+  /**
+   * Uploads a file and returns its URL, with the markdown embedding it.
+   */
+  async handleUploadFile(args: UploadFileInput): Promise<BaseToolResponse> {
+    try {
+      const client = await this.verifyAuth('write');
+
+      const file = await client.uploadFile(await readFileInput(args, "file"));
+
+      return this.createJsonResponse({ ...file, markdown: toMarkdown(file) });
+    } catch (error) {
+      return this.handleError(error, "upload file");
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { defineTools, WRITE_TOOL } from "../../../core/tools/tool.registry.js";
+import { FileHandler } from "../handlers/file.handler.js";
+
+const FILE_PROPERTIES = {
+  path: {
+    type: "string",
+    description: "Local file to upload, relative to LINEAR_UPLOAD_DIR (instead of content)",
+    optional: true,
+  },
+  content: {
+    type: "string",
+    description: "Base64 encoded content to upload (instead of path)",
+    optional: true,
+  },
+  filename: {
+    type: "string",
+    description: "Name of the file, required with content (default: the name of the local file)",
+    optional: true,
+  },
+  contentType: {
+    type: "string",
+    description: "MIME type of the file (default: guessed from the file extension)",
+    optional: true,
+  },
+};
+
+/**
+ * Schema of files uploaded along with an issue or comment, and embedded in
+ * its markdown.
+ */
+export const EMBEDDED_FILES_SCHEMA = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: FILE_PROPERTIES,
+  },
+  description:
+    "Files to upload and embed at the end of the text: images are shown, other files linked. Each is a local path or base64 content with a filename",
+  optional: true,
+};
+
+/**
+ * Tools for files uploaded to Linear's storage.
+ */
+export const fileTools = defineTools(FileHandler, [
+  {
+    name: "linear_upload_file",
+    method: "handleUploadFile",
+    description:
+      "Upload a file, such as a screenshot or a log, to Linear's storage. Returns its URL and the markdown to embed it in an issue description or comment",
+    inputSchema: {
+      type: "object",
+      properties: FILE_PROPERTIES,
+      required: [],
+    },
+    annotations: WRITE_TOOL,
+  },
+]);
@@ -0,0 +1,47 @@
+import { BaseToolResponse } from "../../../core/interfaces/tool-handler.interface.js";
+
+/**
+ * Input types for file operations
+ */
+
+/**
+ * A file to upload: a local file or base64 content.
+ */
+export interface FileInput {
+  path?: string; // Local file, inside LINEAR_UPLOAD_DIR
+  content?: string; // Base64 encoded content
+  filename?: string; // Required with content, defaults to the name of the file otherwise
+  contentType?: string; // Guessed from the file extension by default
+}
+
+export type UploadFileInput = FileInput;
+
+/**
+ * Response types for file operations
+ */
+
+export interface UploadedFile {
+  filename: string;
+  contentType: string;
+  size: number;
+  assetUrl: string;
+}
+
+export interface FileUploadResponse {
+  fileUpload: {
+    success: boolean;
+    uploadFile?: {
+      uploadUrl: string;
+      assetUrl: string;
+      headers: Array<{ key: string; value: string }>;
+    };
+  };
+}
+
+/**
+ * Handler method types
+ */
+
+export interface FileHandlerMethods {
+  handleUploadFile(args: UploadFileInput): Promise<BaseToolResponse>;
+}
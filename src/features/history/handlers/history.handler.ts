@@ -0,0 +1,160 @@
+import { BaseHandler } from "../../../core/handlers/base.handler.js";
+import { BaseToolResponse } from "../../../core/interfaces/tool-handler.interface.js";
+import { NotFoundError, ValidationError } from "../../../core/errors/linear.errors.js";
+import { LinearAuth } from "../../../auth.js";
+import { LinearGraphQLClient } from "../../../graphql/client.js";
+import { IssueResolver } from "../../issues/resolvers/issue.resolver.js";
+import { IssueHistoryEntry } from "../../issues/types/issue.types.js";
+import {
+  GetIssueHistoryInput,
+  HISTORY_CHANGE_TYPES,
+  HistoryChange,
+  HistoryChangeType,
+  HistoryEvent,
+  HistoryHandlerMethods,
+} from "../types/history.types.js";
+
+/** Priority names, by priority value */
+const PRIORITIES = ["None", "Urgent", "High", "Normal", "Low"];
+
+const priorityName = (priority?: number): string | undefined =>
+  priority === undefined || priority === null
+    ? undefined
+    : PRIORITIES[priority] ?? String(priority);
+
+const cycleName = (cycle?: { number: number; name?: string }): string | undefined =>
+  cycle ? cycle.name || `Cycle ${cycle.number}` : undefined;
+
+/**
+ * Lists the changes recorded by a history entry.
+ */
+function listChanges(entry: IssueHistoryEntry): HistoryChange[] {
+  const changes: HistoryChange[] = [];
+  // Linear leaves the values of what didn't change null
+  const change = (type: HistoryChangeType, from?: string | number, to?: string | number) => {
+    const [before, after] = [from ?? null, to ?? null];
+    if (before !== null || after !== null) {
+      changes.push({ type, from: before, to: after });
+    }
+  };
+
+  change("state", entry.fromState?.name, entry.toState?.name);
+  change("assignee", entry.fromAssignee?.name, entry.toAssignee?.name);
+  change("priority", priorityName(entry.fromPriority), priorityName(entry.toPriority));
+  if (entry.addedLabels?.length || entry.removedLabels?.length) {
+    changes.push({
+      type: "labels",
+      added: (entry.addedLabels ?? []).map((label) => label.name),
+      removed: (entry.removedLabels ?? []).map((label) => label.name),
+    });
+  }
+  change("project", entry.fromProject?.name, entry.toProject?.name);
+  change("cycle", cycleName(entry.fromCycle), cycleName(entry.toCycle));
+  change("parent", entry.fromParent?.identifier, entry.toParent?.identifier);
+  change("title", entry.fromTitle, entry.toTitle);
+  change("estimate", entry.fromEstimate, entry.toEstimate);
+  change("due_date", entry.fromDueDate, entry.toDueDate);
+  if (entry.updatedDescription) {
+    changes.push({ type: "description" });
+  }
+  if (entry.archived) {
+    changes.push({ type: "archived" });
+  }
+
+  return changes;
+}
+
+/**
+ * Turns the history entries of an issue into a timeline of the changes made
+ * to it, oldest first. Entries without any change of a known kind are left out.
+ */
+export function toTimeline(entries: IssueHistoryEntry[]): HistoryEvent[] {
+  return [...entries]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map((entry) => ({
+      id: entry.id,
+      createdAt: entry.createdAt,
+      actor: entry.actor?.name ?? null,
+      changes: listChanges(entry),
+    }))
+    .filter((event) => event.changes.length > 0);
+}
+
+/**
+ * Handler for the history of issues.
+ */
+export class HistoryHandler extends BaseHandler implements HistoryHandlerMethods {
+  constructor(auth: LinearAuth, graphqlClient?: LinearGraphQLClient) {
+    super(auth, graphqlClient);
+  }
+
+  /**
+   * Gets the timeline of an issue, optionally limited to a date range and
+   * to some kinds of changes.
+   */
+  async handleGetIssueHistory(args: GetIssueHistoryInput): Promise<BaseToolResponse> {
+    try {
+      const client = await this.verifyAuth();
+      this.validateRequiredParams(args, ["issueId"]);
+
+      const since = this.parseDate(args.since, "since");
+      const until = this.parseDate(args.until, "until", true);
+      const unknown = (args.types ?? []).filter((type) => !HISTORY_CHANGE_TYPES.includes(type));
+      if (unknown.length > 0) {
+        throw new ValidationError(
+          `Unknown change types: ${unknown.join(", ")}. ` +
+            `Expected one of ${HISTORY_CHANGE_TYPES.join(", ")}`,
+          { field: "types" }
+        );
+      }
+
+      const id = await new IssueResolver(client).resolveId(args.issueId);
+      const history = await client.getIssueHistory(id);
+      if (!history) {
+        throw new NotFoundError(`Issue ${args.issueId} not found`, { field: "issueId" });
+      }
+
+      const types = args.types?.length ? new Set(args.types) : undefined;
+      const events = toTimeline(history.entries)
+        .filter((event) => {
+          const time = Date.parse(event.createdAt);
+          return (since === undefined || time >= since) && (until === undefined || time <= until);
+        })
+        .map((event) =>
+          types
+            ? { ...event, changes: event.changes.filter((change) => types.has(change.type)) }
+            : event
+        )
+        .filter((event) => event.changes.length > 0);
+
+      return this.createJsonResponse({
+        issue: history.identifier,
+        events,
+        truncated: history.truncated,
+      });
+    } catch (error) {
+      return this.handleError(error, "get issue history");
+    }
+  }
+
+  /**
+   * Parses an ISO 8601 date or date-time into a timestamp. A date on its own
+   * is the start of that day (UTC), or its end when `endOfDay` is set.
+   */
+  private parseDate(
+    value: string | undefined,
+    field: string,
+    endOfDay = false
+  ): number | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) {
+      throw new ValidationError(`${field} must be an ISO 8601 date, e.g. 2024-05-01`, { field });
+    }
+    const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+    return dateOnly && endOfDay ? time + 24 * 60 * 60 * 1000 - 1 : time;
+  }
+}
@@ -0,0 +1,45 @@
+import { defineTools, READ_ONLY_TOOL } from "../../../core/tools/tool.registry.js";
+import { HistoryHandler } from "../handlers/history.handler.js";
+import { HISTORY_CHANGE_TYPES } from "../types/history.types.js";
+
+/**
+ * Tools for the history of issues.
+ */
+export const historyTools = defineTools(HistoryHandler, [
+  {
+    name: "linear_get_issue_history",
+    method: "handleGetIssueHistory",
+    description:
+      "Get the timeline of an issue: state transitions, assignee, priority, label, project and other changes, with who made them and when, oldest first",
+    inputSchema: {
+      type: "object",
+      properties: {
+        issueId: {
+          type: "string",
+          description: "Issue UUID or identifier (e.g. 'ENG-123')",
+        },
+        since: {
+          type: "string",
+          description: "Only changes made on or after this ISO 8601 date or date-time",
+          optional: true,
+        },
+        until: {
+          type: "string",
+          description: "Only changes made on or before this ISO 8601 date or date-time",
+          optional: true,
+        },
+        types: {
+          type: "array",
+          items: {
+            type: "string",
+            enum: [...HISTORY_CHANGE_TYPES],
+          },
+          description: "Only these kinds of changes (default: all)",
+          optional: true,
+        },
+      },
+      required: ["issueId"],
+    },
+    annotations: READ_ONLY_TOOL,
+  },
+]);
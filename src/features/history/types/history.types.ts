@@ -0,0 +1,89 @@
+import { BaseToolResponse } from "../../../core/interfaces/tool-handler.interface.js";
+import { IssueHistoryEntry } from "../../issues/types/issue.types.js";
+
+/**
+ * The kinds of changes of an issue timeline.
+ */
+export const HISTORY_CHANGE_TYPES = [
+  "state",
+  "assignee",
+  "priority",
+  "labels",
+  "project",
+  "cycle",
+  "parent",
+  "title",
+  "estimate",
+  "due_date",
+  "description",
+  "archived",
+] as const;
+
+export type HistoryChangeType = (typeof HISTORY_CHANGE_TYPES)[number];
+
+/**
+ * Input types for history operations
+ */
+
+export interface GetIssueHistoryInput {
+  issueId: string; // UUID or identifier
+  since?: string; // ISO 8601 date or date-time, inclusive
+  until?: string; // ISO 8601 date or date-time, inclusive
+  types?: HistoryChangeType[]; // Only these kinds of changes
+}
+
+/**
+ * Response types for history operations
+ */
+
+/**
+ * One change of a timeline event. Labels list what was added and removed,
+ * description and archived changes have neither values nor labels.
+ */
+export interface HistoryChange {
+  type: HistoryChangeType;
+  from?: string | number | null;
+  to?: string | number | null;
+  added?: string[];
+  removed?: string[];
+}
+
+/**
+ * The changes made to an issue at once, by whom and when.
+ */
+export interface HistoryEvent {
+  id: string;
+  createdAt: string;
+  actor: string | null;
+  changes: HistoryChange[];
+}
+
+export interface IssueHistory {
+  id: string;
+  identifier: string;
+  entries: IssueHistoryEntry[];
+  /** Whether there were more entries than were fetched */
+  truncated: boolean;
+}
+
+export interface IssueHistoryResponse {
+  issue: {
+    id: string;
+    identifier: string;
+    history: {
+      pageInfo: {
+        hasNextPage: boolean;
+        endCursor: string | null;
+      };
+      nodes: IssueHistoryEntry[];
+    };
+  } | null;
+}
+
+/**
+ * Handler method types
+ */
+
+export interface HistoryHandlerMethods {
+  handleGetIssueHistory(args: GetIssueHistoryInput): Promise<BaseToolResponse>;
+}
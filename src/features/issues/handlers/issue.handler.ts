@@ -1,7 +1,17 @@
 import { BaseHandler } from "../../../core/handlers/base.handler.js";
-import { BaseToolResponse } from "../../../core/interfaces/tool-handler.interface.js";
+import {
+  BaseToolResponse,
+  ErrorToolResponse,
+} from "../../../core/interfaces/tool-handler.interface.js";
+import { NotFoundError, ValidationError } from "../../../core/errors/linear.errors.js";
+import { ReferenceResolver } from "../../../core/resolvers/reference.resolver.js";
+import { IssueResolver } from "../resolvers/issue.resolver.js";
+import { listRelations } from "../../relations/handlers/relation.handler.js";
+import { toTimeline } from "../../history/handlers/history.handler.js";
+import { embedFiles, uploadFiles } from "../../files/handlers/file.handler.js";
 import { LinearAuth } from "../../../auth.js";
 import { LinearGraphQLClient } from "../../../graphql/client.js";
+import { parseIssueIdentifier } from "../../../graphql/filters.js";
 import {
   IssueHandlerMethods,
   CreateIssueInput,
@@ -10,18 +20,72 @@ import {
   SearchIssuesInput,
   SearchIssuesByIdentifierInput,
   DeleteIssueInput,
+  DeleteIssuesInput,
   CreateIssueResponse,
   CreateIssuesResponse,
-  UpdateIssueResponse,
+  IssueUpdateResult,
   SearchIssuesResponse,
   DeleteIssueResponse,
   Issue,
   IssueBatchResponse,
   GetIssueInput,
   EditIssueInput,
+  IssueComment,
+  CommentThread,
 } from "../types/issue.types.js";
 import { DocumentNode } from "graphql";
 
+/** Deleting more issues at once requires `confirm: true` */
+const CONFIRM_DELETE_THRESHOLD = 10;
+
+/**
+ * Groups comments into threads, oldest first. Replies whose comment wasn't
+ * fetched start a thread of their own.
+ */
+function toCommentThreads(comments: IssueComment[]): CommentThread[] {
+  const threads = new Map<string, CommentThread>();
+  const byDate = [...comments].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const { parent, ...comment } of byDate) {
+    const thread = parent && threads.get(parent.id);
+    if (thread) {
+      thread.replies.push(comment);
+    } else {
+      threads.set(comment.id, { ...comment, replies: [] });
+    }
+  }
+
+  return [...threads.values()];
+}
+
+/** An issue reference of a bulk operation, with its id once resolved */
+interface ResolvedIssueRef {
+  ref: string;
+  id?: string;
+  teamId?: string;
+  error?: string;
+}
+
+/**
+ * Resolves the issue references of a bulk operation one by one. A reference
+ * that can't be resolved gets the error instead of an id, so unknown issues
+ * are reported along with the other failures.
+ */
+async function resolveEach(
+  refs: string[],
+  resolve: (ref: string) => Promise<{ id: string; teamId?: string }>
+): Promise<ResolvedIssueRef[]> {
+  const resolved: ResolvedIssueRef[] = [];
+  for (const ref of refs) {
+    try {
+      resolved.push({ ref, ...(await resolve(ref)) });
+    } catch (error) {
+      resolved.push({ ref, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return resolved;
+}
+
 /**
  * Handler for issue-related operations.
  * Manages creating, updating, searching, and deleting issues.
@@ -36,10 +100,18 @@ export class IssueHandler extends BaseHandler implements IssueHandlerMethods {
    */
   async handleCreateIssue(args: CreateIssueInput): Promise<BaseToolResponse> {
     try {
-      const client = this.verifyAuth();
+      const client = await this.verifyAuth('issues:create');
       this.validateRequiredParams(args, ["title", "description", "teamId"]);
 
-      const result = (await client.createIssue(args)) as CreateIssueResponse;
+      const { files, ...fields } = args;
+      const input = await new ReferenceResolver(client).resolveIssueReferences(fields);
+      if (args.parentId) {
+        input.parentId = await new IssueResolver(client).resolveId(args.parentId, "parentId");
+      }
+      if (files?.length) {
+        input.description = embedFiles(input.description, await uploadFiles(client, files));
+      }
+      const result = (await client.createIssue(input)) as CreateIssueResponse;
 
       if (!result.issueCreate.success || !result.issueCreate.issue) {
         throw new Error("Failed to create issue");
@@ -70,7 +142,7 @@ export class IssueHandler extends BaseHandler implements IssueHandlerMethods {
         },
       });
     } catch (error) {
-      this.handleError(error, "create issue");
+      return this.handleError(error, "create issue");
     }
   }
 
@@ -79,16 +151,32 @@ export class IssueHandler extends BaseHandler implements IssueHandlerMethods {
    */
   async handleCreateIssues(args: CreateIssuesInput): Promise<BaseToolResponse> {
     try {
-      const client = this.verifyAuth();
+      const client = await this.verifyAuth('issues:create');
       this.validateRequiredParams(args, ["issues"]);
 
       if (!Array.isArray(args.issues)) {
         throw new Error("Issues parameter must be an array");
       }
 
-      const result = (await client.createIssues(
-        args.issues
-      )) as IssueBatchResponse;
+      const resolver = new ReferenceResolver(client);
+      const issueResolver = new IssueResolver(client);
+      await issueResolver.prefetch(args.issues.map((issue) => issue.parentId));
+
+      const issues: CreateIssueInput[] = [];
+      for (const [index, issue] of args.issues.entries()) {
+        const input = await resolver.resolveIssueReferences(issue, {
+          path: `issues[${index}]`,
+        });
+        if (issue.parentId) {
+          input.parentId = await issueResolver.resolveId(
+            issue.parentId,
+            `issues[${index}].parentId`
+          );
+        }
+        issues.push(input);
+      }
+
+      const result = (await client.createIssues(issues)) as IssueBatchResponse;
 
       if (!result.issueBatchCreate.success) {
         throw new Error("Failed to create issues");
@@ -106,7 +194,7 @@ export class IssueHandler extends BaseHandler implements IssueHandlerMethods {
             .join("\n")
       );
     } catch (error) {
-      this.handleError(error, "create issues");
+      return this.handleError(error, "create issues");
     }
   }
 
@@ -117,28 +205,79 @@ export class IssueHandler extends BaseHandler implements IssueHandlerMethods {
     args: BulkUpdateIssuesInput
   ): Promise<BaseToolResponse> {
     try {
-      const client = this.verifyAuth();
+      const client = await this.verifyAuth('write');
       this.validateRequiredParams(args, ["issueIds", "update"]);
 
       if (!Array.isArray(args.issueIds)) {
         throw new Error("IssueIds parameter must be an array");
       }
 
-      const result = (await client.updateIssues(
-        args.issueIds,
-        args.update
-      )) as UpdateIssueResponse;
+      // State names are resolved per team, so issues of different teams are
+      // updated separately
+      const resolver = new ReferenceResolver(client);
+      const issueResolver = new IssueResolver(client);
+      const byTeam = resolver.needsTeam(args.update);
+      await issueResolver.prefetch(args.issueIds, { ids: byTeam });
+      const resolved = await resolveEach(args.issueIds, async (ref) => {
+        if (!byTeam) {
+          return { id: await issueResolver.resolveId(ref, "issueIds") };
+        }
+        const [{ id, teamId }] = await issueResolver.resolveIssues([ref]);
+        return { id, teamId };
+      });
 
-      if (!result.issueUpdate.success) {
-        throw new Error("Failed to update issues");
+      const groups = new Map<string | undefined, string[]>();
+      resolved.forEach(({ id, teamId }) => {
+        if (id) {
+          groups.set(teamId, [...(groups.get(teamId) ?? []), id]);
+        }
+      });
+      // Every team's update is resolved before any issue is updated, so an
+      // update that can't be resolved for one team fails that team's issues
+      // without leaving the others half done
+      const outcomes = new Map<string, IssueUpdateResult>();
+      const batches: Array<{ issueIds: string[]; update: BulkUpdateIssuesInput["update"] }> = [];
+      for (const [teamId, issueIds] of groups) {
+        try {
+          const update = await resolver.resolveIssueReferences(args.update, {
+            teamId,
+            path: "update",
+          });
+          batches.push({ issueIds, update });
+        } catch (error) {
+          if (!(error instanceof ValidationError || error instanceof NotFoundError)) {
+            throw error;
+          }
+          issueIds.forEach((id) => {
+            outcomes.set(id, { id, success: false, error: error.message });
+          });
+        }
       }
+      for (const { issueIds, update } of batches) {
+        (await client.updateIssues(issueIds, update)).forEach((result) => {
+          outcomes.set(result.id, result);
+        });
+      }
+      const results: IssueUpdateResult[] = resolved.map(({ ref, id, error }) =>
+        id ? outcomes.get(id)! : { id: ref, success: false, error }
+      );
 
-      // Since the response only contains a single issue, we count the number of IDs that were updated
-      const updatedCount = args.issueIds.length;
-
-      return this.createResponse(`Successfully updated ${updatedCount} issues`);
+      // Issues are updated independently: report which ones failed, and
+      // only fail the tool call if none could be updated
+      const updated = results.filter((result) => result.success).length;
+      const response = this.createJsonResponse({
+        success: updated === results.length,
+        updated,
+        failed: results.length - updated,
+        results,
+      });
+      if (updated === 0) {
+        const failure: ErrorToolResponse = { ...response, isError: true };
+        return failure;
+      }
+      return response;
     } catch (error) {
-      this.handleError(error, "update issues");
+      return this.handleError(error, "update issues");
     }
   }
 
@@ -147,7 +286,8 @@ export class IssueHandler extends BaseHandler implements IssueHandlerMethods {
    */
   async handleSearchIssues(args: SearchIssuesInput): Promise<BaseToolResponse> {
     try {
-      const client = this.verifyAuth();
+      const client = await this.verifyAuth();
+      const resolver = new ReferenceResolver(client);
 
       const filter: Record<string, unknown> = {};
 
@@ -162,13 +302,25 @@ export class IssueHandler extends BaseHandler implements IssueHandlerMethods {
       }
 
       if (args.filter?.project?.id?.eq) {
-        filter.project = { id: { eq: args.filter.project.id.eq } };
+        filter.project = {
+          id: {
+            eq: await resolver.resolveProject(args.filter.project.id.eq, "filter.project.id.eq"),
+          },
+        };
       }
       if (args.teamIds) {
-        filter.team = { id: { in: args.teamIds } };
+        const teamIds: string[] = [];
+        for (const [index, teamId] of args.teamIds.entries()) {
+          teamIds.push(await resolver.resolveTeam(teamId, `teamIds[${index}]`));
+        }
+        filter.team = { id: { in: teamIds } };
       }
       if (args.assigneeIds) {
-        filter.assignee = { id: { in: args.assigneeIds } };
+        const assigneeIds: string[] = [];
+        for (const [index, assigneeId] of args.assigneeIds.entries()) {
+          assigneeIds.push(await resolver.resolveUser(assigneeId, `assigneeIds[${index}]`));
+        }
+        filter.assignee = { id: { in: assigneeIds } };
       }
       if (args.states) {
         filter.state = { name: { in: args.states } };
@@ -186,7 +338,7 @@ export class IssueHandler extends BaseHandler implements IssueHandlerMethods {
 
       return this.createJsonResponse(result);
     } catch (error) {
-      this.handleError(error, "search issues");
+      return this.handleError(error, "search issues");
     }
   }
 
@@ -197,51 +349,73 @@ export class IssueHandler extends BaseHandler implements IssueHandlerMethods {
     args: SearchIssuesByIdentifierInput
   ): Promise<BaseToolResponse> {
     try {
-      const client = this.verifyAuth();
+      const client = await this.verifyAuth();
       this.validateRequiredParams(args, ["identifiers"]);
 
       if (!Array.isArray(args.identifiers)) {
         throw new Error("Identifiers parameter must be an array");
       }
 
-      const result = (await client.searchIssues(
-        { identifier: { in: args.identifiers } },
-        100,
-        undefined,
-        "updatedAt"
-      )) as SearchIssuesResponse;
+      const result = await client.getIssuesByIdentifier(args.identifiers);
 
-      return this.createJsonResponse(result);
+      // Compare team keys and numbers, so "eng-012" matches ENG-12
+      const normalize = (identifier: string) => {
+        const parsed = parseIssueIdentifier(identifier);
+        return parsed ? `${parsed.teamKey}-${parsed.number}` : identifier.trim().toUpperCase();
+      };
+      const found = new Set(result.issues.nodes.map((issue) => normalize(issue.identifier)));
+      const notFound = args.identifiers.filter((identifier) => !found.has(normalize(identifier)));
+
+      return this.createJsonResponse({ ...result, notFound });
     } catch (error) {
-      this.handleError(error, "search issues by identifier");
+      return this.handleError(error, "search issues by identifier");
     }
   }
 
   /**
-   * Get a single issue by identifier, including all comments
+   * Get a single issue by identifier, with its comment threads, attachments,
+   * sub-issues, relations and recent history
    */
   async handleGetIssue(args: GetIssueInput): Promise<BaseToolResponse> {
     try {
-      const client = this.verifyAuth();
+      const client = await this.verifyAuth();
       this.validateRequiredParams(args, ["identifier"]);
 
-      // Use the same query as search by identifier but with a single identifier
-      const result = (await client.searchIssues(
-        { identifier: { in: [args.identifier] } },
-        1,
-        undefined,
-        "updatedAt"
-      )) as SearchIssuesResponse;
+      const id = await new IssueResolver(client).resolveId(args.identifier, "identifier");
+      const issue = await client.getIssueDetail(id);
 
-      if (!result.issues.nodes || result.issues.nodes.length === 0) {
-        throw new Error(`Issue ${args.identifier} not found`);
+      if (!issue) {
+        throw new NotFoundError(`Issue ${args.identifier} not found`);
       }
 
+      const {
+        labels,
+        subscribers,
+        children,
+        attachments,
+        relations,
+        inverseRelations,
+        history,
+        comments,
+        ...fields
+      } = issue;
+
       return this.createJsonResponse({
-        issue: result.issues.nodes[0],
+        issue: {
+          ...fields,
+          labels: labels?.nodes ?? [],
+          subscribers: subscribers.nodes,
+          children: children.nodes,
+          attachments: attachments.nodes,
+          relations: listRelations(issue),
+          history: toTimeline(history.nodes),
+          comments: toCommentThreads(comments.nodes),
+          // More comments than were fetched
+          commentsTruncated: comments.pageInfo.hasNextPage,
+        },
       });
     } catch (error) {
-      this.handleError(error, "get issue");
+      return this.handleError(error, "get issue");
     }
   }
 
@@ -250,10 +424,11 @@ export class IssueHandler extends BaseHandler implements IssueHandlerMethods {
    */
   async handleDeleteIssue(args: DeleteIssueInput): Promise<BaseToolResponse> {
     try {
-      const client = this.verifyAuth();
+      const client = await this.verifyAuth('write');
       this.validateRequiredParams(args, ["id"]);
 
-      const result = (await client.deleteIssue(args.id)) as DeleteIssueResponse;
+      const id = await new IssueResolver(client).resolveId(args.id, "id");
+      const result = (await client.deleteIssue(id)) as DeleteIssueResponse;
 
       if (!result.issueDelete.success) {
         throw new Error("Failed to delete issue");
@@ -261,7 +436,62 @@ export class IssueHandler extends BaseHandler implements IssueHandlerMethods {
 
       return this.createResponse(`Successfully deleted issue ${args.id}`);
     } catch (error) {
-      this.handleError(error, "delete issue");
+      return this.handleError(error, "delete issue");
+    }
+  }
+
+  /**
+   * Deletes or archives multiple issues, reporting the outcome for each.
+   */
+  async handleDeleteIssues(args: DeleteIssuesInput): Promise<BaseToolResponse> {
+    try {
+      const client = await this.verifyAuth('write');
+      this.validateRequiredParams(args, ["ids"]);
+
+      if (!Array.isArray(args.ids)) {
+        throw new Error("Ids parameter must be an array");
+      }
+
+      const refs = [...new Set(args.ids)];
+      const action = args.archive ? "archived" : "deleted";
+      if (refs.length > CONFIRM_DELETE_THRESHOLD && args.confirm !== true) {
+        throw new ValidationError(
+          `${refs.length} issues would be ${action}. Pass confirm: true to proceed.`,
+          { field: "confirm" }
+        );
+      }
+
+      const issueResolver = new IssueResolver(client);
+      await issueResolver.prefetch(refs);
+      const resolved = await resolveEach(refs, async (ref) => ({
+        id: await issueResolver.resolveId(ref, "ids"),
+      }));
+
+      const ids = [...new Set(resolved.flatMap(({ id }) => (id ? [id] : [])))];
+      const outcomes = new Map(
+        (await client.deleteIssues(ids, { archive: args.archive })).map((result) => [
+          result.id,
+          result,
+        ])
+      );
+      const results = resolved.map(({ ref, id, error }) =>
+        id ? { issue: ref, ...outcomes.get(id)! } : { issue: ref, success: false, error }
+      );
+
+      const succeeded = results.filter((result) => result.success).length;
+      const response = this.createJsonResponse({
+        success: succeeded === results.length,
+        [action]: succeeded,
+        failed: results.length - succeeded,
+        results,
+      });
+      if (succeeded === 0) {
+        const failure: ErrorToolResponse = { ...response, isError: true };
+        return failure;
+      }
+      return response;
+    } catch (error) {
+      return this.handleError(error, `${args.archive ? "archive" : "delete"} issues`);
     }
   }
 
@@ -270,7 +500,7 @@ export class IssueHandler extends BaseHandler implements IssueHandlerMethods {
    */
   async handleEditIssue(args: EditIssueInput): Promise<BaseToolResponse> {
     try {
-      const client = this.verifyAuth();
+      const client = await this.verifyAuth('write');
       this.validateRequiredParams(args, ["issueId"]);
 
       // Construct the input object for the GraphQL mutation
@@ -305,9 +535,22 @@ export class IssueHandler extends BaseHandler implements IssueHandlerMethods {
         );
       }
 
+      // State and label names belong to the issue's team
+      const resolver = new ReferenceResolver(client);
+      const issueResolver = new IssueResolver(client);
+      await issueResolver.prefetch([args.issueId, args.parentId]);
+      const issueId = await issueResolver.resolveId(args.issueId, "issueId");
+      const teamId = resolver.needsTeam(updateInput)
+        ? (await issueResolver.resolveIssues([issueId], "issueId"))[0].teamId
+        : undefined;
+      const resolvedInput = await resolver.resolveIssueReferences(updateInput, { teamId });
+      if (args.parentId) {
+        resolvedInput.parentId = await issueResolver.resolveId(args.parentId, "parentId");
+      }
+
       // Call the GraphQL client method (to be implemented in Step 5)
       // Assuming it returns an object like { issueUpdate: { success: boolean, issue: Issue } }
-      const result = await client.updateIssue(args.issueId, updateInput);
+      const result = await client.updateIssue(issueId, resolvedInput);
 
       if (!result?.issueUpdate?.success || !result?.issueUpdate?.issue) {
         throw new Error(
@@ -333,7 +576,7 @@ export class IssueHandler extends BaseHandler implements IssueHandlerMethods {
         },
       });
     } catch (error) {
-      this.handleError(error, "edit issue");
+      return this.handleError(error, "edit issue");
     }
   }
 }
@@ -0,0 +1,112 @@
+import { LinearGraphQLClient } from "../../../graphql/client.js";
+import { NotFoundError } from "../../../core/errors/linear.errors.js";
+import { issueIdentifierFilters, parseIssueIdentifier } from "../../../graphql/filters.js";
+
+/** Most issues looked up in a single request */
+const LOOKUP_BATCH_SIZE = 100;
+
+/**
+ * An issue as found by its id or identifier.
+ */
+export interface IssueReference {
+  id: string;
+  identifier: string;
+  teamId: string;
+}
+
+const normalize = (ref: string): string => ref.trim().toUpperCase();
+
+const isIdentifier = (ref: string): boolean => parseIssueIdentifier(ref) !== undefined;
+
+/**
+ * Resolves issue references, either UUIDs or identifiers like "ENG-123", to
+ * issues. Lookups are batched and remembered, so a handler can resolve all
+ * references of a request with a single API call by prefetching them.
+ */
+export class IssueResolver {
+  private readonly issues = new Map<string, IssueReference>();
+  private readonly missing = new Set<string>();
+
+  constructor(private readonly client: LinearGraphQLClient) {}
+
+  /**
+   * Resolves an issue id or identifier to the issue id.
+   */
+  async resolveId(ref: string, field = "issueId"): Promise<string> {
+    const [id] = await this.resolveIds([ref], field);
+    return id;
+  }
+
+  /**
+   * Resolves issue ids or identifiers to issue ids. Anything but an
+   * identifier is passed through as an id without a lookup.
+   */
+  async resolveIds(refs: string[], field = "issueIds"): Promise<string[]> {
+    const identifiers = refs.filter(isIdentifier);
+    const issues = await this.resolveIssues(identifiers, field);
+    const ids = new Map(identifiers.map((ref, index) => [ref, issues[index].id]));
+    return refs.map((ref) => ids.get(ref) ?? ref);
+  }
+
+  /**
+   * Looks up issues by id or identifier.
+   * @throws {NotFoundError} If an issue doesn't exist
+   */
+  async resolveIssues(refs: string[], field = "issueIds"): Promise<IssueReference[]> {
+    await this.load(refs);
+
+    const notFound = refs.filter((ref) => !this.issues.has(normalize(ref)));
+    if (notFound.length > 0) {
+      throw new NotFoundError(`Issues not found: ${notFound.join(", ")}`, { field });
+    }
+    return refs.map((ref) => this.issues.get(normalize(ref))!);
+  }
+
+  /**
+   * Looks up the identifiers among the references (and the ids, with
+   * `options.ids`) in as few requests as possible, so resolving them later
+   * doesn't need a request of its own. Missing issues are reported when
+   * resolved.
+   */
+  async prefetch(
+    refs: Array<string | undefined>,
+    options: { ids?: boolean } = {}
+  ): Promise<void> {
+    await this.load(
+      refs.filter((ref): ref is string => !!ref && (options.ids || isIdentifier(ref)))
+    );
+  }
+
+  /**
+   * Looks up the issues not known yet, in batches.
+   */
+  private async load(refs: string[]): Promise<void> {
+    const unknown = [...new Set(refs.map(normalize))].filter(
+      (ref) => !this.issues.has(ref) && !this.missing.has(ref)
+    );
+
+    for (let start = 0; start < unknown.length; start += LOOKUP_BATCH_SIZE) {
+      const batch = unknown.slice(start, start + LOOKUP_BATCH_SIZE);
+      const { issues } = await this.client.getIssueReferences(this.toFilter(batch));
+
+      for (const issue of issues.nodes) {
+        const reference = { id: issue.id, identifier: issue.identifier, teamId: issue.team.id };
+        this.issues.set(normalize(issue.id), reference);
+        this.issues.set(normalize(issue.identifier), reference);
+      }
+      batch
+        .filter((ref) => !this.issues.has(ref))
+        .forEach((ref) => this.missing.add(ref));
+    }
+  }
+
+  private toFilter(refs: string[]): Record<string, unknown> {
+    // References are normalized to upper case, Linear's ids are lower case
+    const ids = refs.filter((ref) => !isIdentifier(ref)).map((id) => id.toLowerCase());
+    const identifiers = refs.filter(isIdentifier).map((ref) => parseIssueIdentifier(ref)!);
+
+    return {
+      or: [...(ids.length > 0 ? [{ id: { in: ids } }] : []), ...issueIdentifierFilters(identifiers)],
+    };
+  }
+}
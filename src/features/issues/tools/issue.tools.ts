@@ -0,0 +1,415 @@
+import { defineTools, READ_ONLY_TOOL, WRITE_TOOL, DESTRUCTIVE_TOOL } from "../../../core/tools/tool.registry.js";
+import { IssueHandler } from "../handlers/issue.handler.js";
+import { EMBEDDED_FILES_SCHEMA } from "../../files/tools/file.tools.js";
+
+/**
+ * Tools for issue operations.
+ */
+export const issueTools = defineTools(IssueHandler, [
+  {
+    name: "linear_create_issue",
+    method: "handleCreateIssue",
+    description: "Create a new issue in Linear",
+    inputSchema: {
+      type: "object",
+      properties: {
+        title: {
+          type: "string",
+          description: "Issue title",
+        },
+        description: {
+          type: "string",
+          description: "Issue description",
+        },
+        teamId: {
+          type: "string",
+          description: "Team ID (UUID), key (e.g. 'ENG') or name",
+        },
+        parentId: {
+          type: "string",
+          description: "Parent issue ID (UUID) or identifier (e.g. 'ENG-123')",
+          optional: true,
+        },
+        labelIds: {
+          type: "array",
+          items: {
+            type: "string",
+          },
+          description:
+            "Label UUIDs or names to apply, eg ['Bug'] or ['a1eb5aed-7425-4ea5-98ec-dfab52381e0e']",
+          optional: true,
+        },
+        assigneeId: {
+          type: "string",
+          description: "Assignee user ID (UUID), email, name, or 'me'",
+          optional: true,
+        },
+        priority: {
+          type: "number",
+          description: "Issue priority (0-4)",
+          optional: true,
+        },
+        createAsUser: {
+          type: "string",
+          description: "Name to display for the created issue",
+          optional: true,
+        },
+        displayIconUrl: {
+          type: "string",
+          description: "URL of the avatar to display",
+          optional: true,
+        },
+        files: EMBEDDED_FILES_SCHEMA,
+      },
+      required: ["title", "description", "teamId"],
+    },
+    annotations: WRITE_TOOL,
+  },
+
+  {
+    name: "linear_bulk_update_issues",
+    method: "handleBulkUpdateIssues",
+    description:
+      "Update multiple issues at once. Reports the outcome for every issue: issues that can't be updated don't stop the others",
+    inputSchema: {
+      type: "object",
+      properties: {
+        issueIds: {
+          type: "array",
+          items: {
+            type: "string",
+          },
+          description:
+            "List of issue UUIDs or identifiers (e.g. 'ENG-123') to update",
+        },
+        update: {
+          type: "object",
+          properties: {
+            stateId: {
+              type: "string",
+              description: "New state ID or name (e.g. 'In Progress')",
+              optional: true,
+            },
+            assigneeId: {
+              type: "string",
+              description: "New assignee ID, email, name, or 'me'",
+              optional: true,
+            },
+            priority: {
+              type: "number",
+              description: "New priority (0-4)",
+              optional: true,
+            },
+          },
+        },
+      },
+      required: ["issueIds", "update"],
+    },
+    annotations: WRITE_TOOL,
+  },
+
+  {
+    name: "linear_edit_issue",
+    method: "handleEditIssue",
+    description:
+      "Edit an existing issue, updating any of its fields. Note: When setting projectMilestoneId, you must also set projectId.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        issueId: {
+          type: "string",
+          description: "Required: The UUID or identifier (e.g. 'ENG-123') of the issue to update",
+        },
+        title: {
+          type: "string",
+          description: "The issue title",
+          optional: true,
+        },
+        description: {
+          type: "string",
+          description: "The issue description in markdown format",
+          optional: true,
+        },
+        stateId: {
+          type: "string",
+          description: "UUID or name (e.g. 'In Progress') of the target state",
+          optional: true,
+        },
+        priority: {
+          type: "number",
+          description:
+            "Issue priority (0=No priority, 1=Urgent, 2=High, 3=Normal, 4=Low)",
+          optional: true,
+        },
+        assigneeId: {
+          type: "string",
+          description: "UUID, email or name of the user to assign the issue to, or 'me'",
+          optional: true,
+        },
+        labelIds: {
+          type: "array",
+          items: {
+            type: "string",
+          },
+          description: "Array of label UUIDs or names (replaces existing labels)",
+          optional: true,
+        },
+        projectId: {
+          type: "string",
+          description: "UUID or name of the project to associate with the issue",
+          optional: true,
+        },
+        projectMilestoneId: {
+          type: "string",
+          description:
+            "UUID of the project milestone to associate with the issue. Note: Requires projectId to be set when using this field",
+          optional: true,
+        },
+        estimate: {
+          type: "number",
+          description: "The estimated complexity points for the issue",
+          optional: true,
+        },
+        dueDate: {
+          type: "string",
+          description: "The due date in YYYY-MM-DD format",
+          optional: true,
+        },
+        parentId: {
+          type: "string",
+          description: "UUID or identifier (e.g. 'ENG-123') of the parent issue",
+          optional: true,
+        },
+        sortOrder: {
+          type: "number",
+          description: "Position of the issue relative to other issues",
+          optional: true,
+        },
+      },
+      required: ["issueId"],
+    },
+    annotations: WRITE_TOOL,
+  },
+
+  {
+    name: "linear_search_issues",
+    method: "handleSearchIssues",
+    description: "Search for issues with filtering and pagination",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Search query string",
+          optional: true,
+        },
+        teamIds: {
+          type: "array",
+          items: {
+            type: "string",
+          },
+          description: "Filter by team IDs or keys (e.g. 'ENG')",
+          optional: true,
+        },
+        assigneeIds: {
+          type: "array",
+          items: {
+            type: "string",
+          },
+          description: "Filter by assignee IDs, emails or names ('me' for yourself)",
+          optional: true,
+        },
+        states: {
+          type: "array",
+          items: {
+            type: "string",
+          },
+          description: "Filter by state names",
+          optional: true,
+        },
+        priority: {
+          type: "number",
+          description: "Filter by priority (0-4)",
+          optional: true,
+        },
+        first: {
+          type: "number",
+          description: "Number of issues to return (default: 50)",
+          optional: true,
+        },
+        after: {
+          type: "string",
+          description: "Cursor for pagination",
+          optional: true,
+        },
+        orderBy: {
+          type: "string",
+          description: "Field to order by (default: updatedAt)",
+          optional: true,
+        },
+      },
+    },
+    annotations: READ_ONLY_TOOL,
+  },
+
+  {
+    name: "linear_search_issues_by_identifier",
+    method: "handleSearchIssuesByIdentifier",
+    description:
+      'Search for issues by their identifiers (e.g., ["ENG-78", "OPS-12"]), which may belong to different teams. Identifiers without a matching issue are listed in notFound',
+    inputSchema: {
+      type: "object",
+      properties: {
+        identifiers: {
+          type: "array",
+          items: {
+            type: "string",
+          },
+          description: "Array of issue identifiers to search for",
+        },
+      },
+      required: ["identifiers"],
+    },
+    annotations: READ_ONLY_TOOL,
+  },
+
+  {
+    name: "linear_get_issue",
+    method: "handleGetIssue",
+    description:
+      "Get a single issue with its description, state, assignee, cycle, estimate, due date, subscribers, comment threads, attachments, sub-issues, relations to other issues and recent history",
+    inputSchema: {
+      type: "object",
+      properties: {
+        identifier: {
+          type: "string",
+          description: "Issue identifier (e.g., 'ENG-123') or UUID",
+        },
+      },
+      required: ["identifier"],
+    },
+    annotations: READ_ONLY_TOOL,
+  },
+
+  {
+    name: "linear_delete_issue",
+    method: "handleDeleteIssue",
+    description: "Delete an issue",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Issue UUID or identifier (e.g. 'ENG-123')",
+        },
+      },
+      required: ["id"],
+    },
+    annotations: DESTRUCTIVE_TOOL,
+  },
+
+  {
+    name: "linear_delete_issues",
+    method: "handleDeleteIssues",
+    description:
+      "Delete (move to the trash) or archive multiple issues. Reports the outcome for every issue",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ids: {
+          type: "array",
+          items: {
+            type: "string",
+          },
+          description: "Issue UUIDs or identifiers (e.g. 'ENG-123')",
+        },
+        archive: {
+          type: "boolean",
+          description: "Archive the issues instead of deleting them (default: false)",
+          optional: true,
+        },
+        confirm: {
+          type: "boolean",
+          description: "Must be true to delete or archive more than 10 issues at once",
+          optional: true,
+        },
+      },
+      required: ["ids"],
+    },
+    annotations: DESTRUCTIVE_TOOL,
+  },
+
+  {
+    name: "linear_create_issues",
+    method: "handleCreateIssues",
+    description: "Create multiple issues at once",
+    inputSchema: {
+      type: "object",
+      properties: {
+        issues: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              title: {
+                type: "string",
+                description: "Issue title",
+              },
+              description: {
+                type: "string",
+                description: "Issue description",
+              },
+              teamId: {
+                type: "string",
+                description: "Team ID (UUID), key (e.g. 'ENG') or name",
+              },
+              parentId: {
+                type: "string",
+                description: "Parent issue ID (UUID) or identifier (e.g. 'ENG-123')",
+                optional: true,
+              },
+              labelIds: {
+                type: "array",
+                items: {
+                  type: "string",
+                },
+                description:
+                  "Label UUIDs or names to apply, eg ['Bug'] or ['a1eb5aed-7425-4ea5-98ec-dfab52381e0e']",
+                optional: true,
+              },
+              assigneeId: {
+                type: "string",
+                description: "Assignee user ID (UUID), email, name, or 'me'",
+                optional: true,
+              },
+              priority: {
+                type: "number",
+                description: "Issue priority (0-4)",
+                optional: true,
+              },
+              projectId: {
+                type: "string",
+                description: "Project ID or name",
+                optional: true,
+              },
+              createAsUser: {
+                type: "string",
+                description: "Name to display for the created issue",
+                optional: true,
+              },
+              displayIconUrl: {
+                type: "string",
+                description: "URL of the avatar to display",
+                optional: true,
+              },
+            },
+            required: ["title", "description", "teamId"],
+          },
+          description: "List of issues to create",
+        },
+      },
+      required: ["issues"],
+    },
+    annotations: WRITE_TOOL,
+  },
+]);
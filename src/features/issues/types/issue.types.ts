@@ -1,4 +1,6 @@
 import { BaseToolResponse } from "../../../core/interfaces/tool-handler.interface.js";
+import { IssueRelationsNode } from "../../relations/types/relation.types.js";
+import { FileInput } from "../../files/types/file.types.js";
 
 /**
  * Input types for issue operations
@@ -15,6 +17,7 @@ export interface CreateIssueInput {
   projectId?: string;
   createAsUser?: string; // Name to display for the created issue
   displayIconUrl?: string; // URL of the avatar to display
+  files?: FileInput[]; // Uploaded and embedded at the end of the description
 }
 
 export interface CreateIssuesInput {
@@ -61,13 +64,19 @@ export interface SearchIssuesByIdentifierInput {
 }
 
 export interface GetIssueInput {
-  identifier: string;
+  identifier: string; // Identifier or UUID
 }
 
 export interface DeleteIssueInput {
   id: string;
 }
 
+export interface DeleteIssuesInput {
+  ids: string[]; // UUIDs or identifiers
+  archive?: boolean; // Archive instead of moving to the trash
+  confirm?: boolean; // Required for large batches
+}
+
 export interface EditIssueInput {
   issueId: string; // Required: The UUID of the issue to update
   title?: string;
@@ -160,6 +169,27 @@ export interface UpdateIssueResponse {
   };
 }
 
+export interface UpdateIssuesResponse {
+  issueBatchUpdate: {
+    success: boolean;
+    issues: Array<Pick<Issue, "id" | "identifier" | "title" | "url" | "updatedAt">>;
+    lastSyncId: number;
+  };
+}
+
+/**
+ * Outcome for one issue of a bulk operation.
+ */
+export interface IssueMutationResult {
+  id: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface IssueUpdateResult extends IssueMutationResult {
+  issue?: Pick<Issue, "id" | "identifier" | "title" | "url" | "updatedAt">;
+}
+
 export interface SearchIssuesResponse {
   issues: {
     pageInfo: {
@@ -170,6 +200,166 @@ export interface SearchIssuesResponse {
   };
 }
 
+export interface IssueReferencesResponse {
+  issues: {
+    nodes: Array<{ id: string; identifier: string; team: { id: string } }>;
+  };
+}
+
+/**
+ * A comment of an issue. Replies have the comment they answer as parent.
+ */
+export interface IssueComment {
+  id: string;
+  body: string;
+  url: string;
+  createdAt: string;
+  updatedAt: string;
+  editedAt?: string;
+  resolvedAt?: string;
+  user?: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  parent?: {
+    id: string;
+  };
+}
+
+/**
+ * A top-level comment with its replies, oldest first.
+ */
+export interface CommentThread extends Omit<IssueComment, "parent"> {
+  replies: Omit<IssueComment, "parent">[];
+}
+
+export interface IssueCommentsConnection {
+  pageInfo: {
+    hasNextPage: boolean;
+    endCursor: string | null;
+  };
+  nodes: IssueComment[];
+}
+
+export interface IssueAttachment {
+  id: string;
+  title: string;
+  subtitle?: string;
+  url: string;
+  sourceType?: string;
+  createdAt: string;
+}
+
+/**
+ * A change to an issue, as recorded by Linear. Only the fields of what
+ * changed are set.
+ */
+export interface IssueHistoryEntry {
+  id: string;
+  createdAt: string;
+  actor?: { id: string; name: string };
+  fromState?: { name: string };
+  toState?: { name: string };
+  fromAssignee?: { name: string };
+  toAssignee?: { name: string };
+  fromPriority?: number;
+  toPriority?: number;
+  fromTitle?: string;
+  toTitle?: string;
+  fromProject?: { name: string };
+  toProject?: { name: string };
+  fromCycle?: { number: number; name?: string };
+  toCycle?: { number: number; name?: string };
+  fromParent?: { identifier: string };
+  toParent?: { identifier: string };
+  fromEstimate?: number;
+  toEstimate?: number;
+  fromDueDate?: string;
+  toDueDate?: string;
+  addedLabels?: { name: string }[];
+  removedLabels?: { name: string }[];
+  updatedDescription?: boolean;
+  archived?: boolean;
+}
+
+/**
+ * An issue with everything about it: comments, attachments, sub-issues,
+ * relations and its most recent history.
+ */
+export interface IssueDetail
+  extends Issue,
+    Pick<IssueRelationsNode, "relations" | "inverseRelations"> {
+  description?: string;
+  priorityLabel: string;
+  estimate?: number;
+  dueDate?: string;
+  startedAt?: string;
+  completedAt?: string;
+  canceledAt?: string;
+  archivedAt?: string;
+  team: {
+    id: string;
+    name: string;
+    key: string;
+  };
+  creator?: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  project?: {
+    id: string;
+    name: string;
+  };
+  projectMilestone?: {
+    id: string;
+    name: string;
+  };
+  cycle?: {
+    id: string;
+    number: number;
+    name?: string;
+    startsAt: string;
+    endsAt: string;
+  };
+  subscribers: {
+    nodes: {
+      id: string;
+      name: string;
+      email: string;
+    }[];
+  };
+  children: {
+    nodes: {
+      id: string;
+      identifier: string;
+      title: string;
+      state: {
+        name: string;
+        type: string;
+      };
+    }[];
+  };
+  attachments: {
+    nodes: IssueAttachment[];
+  };
+  history: {
+    nodes: IssueHistoryEntry[];
+  };
+  comments: IssueCommentsConnection;
+}
+
+export interface IssueDetailResponse {
+  issue: IssueDetail | null;
+}
+
+export interface IssueCommentsResponse {
+  issue: {
+    comments: IssueCommentsConnection;
+  } | null;
+}
+
 export interface DeleteIssueResponse {
   issueDelete: {
     success: boolean;
@@ -191,4 +381,5 @@ export interface IssueHandlerMethods {
     args: SearchIssuesByIdentifierInput
   ): Promise<BaseToolResponse>;
   handleDeleteIssue(args: DeleteIssueInput): Promise<BaseToolResponse>;
+  handleDeleteIssues(args: DeleteIssuesInput): Promise<BaseToolResponse>;
 }
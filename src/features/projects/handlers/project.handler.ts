@@ -2,6 +2,7 @@ import { BaseHandler } from "../../../core/handlers/base.handler.js";
 import { BaseToolResponse } from "../../../core/interfaces/tool-handler.interface.js";
 import { LinearAuth } from "../../../auth.js";
 import { LinearGraphQLClient } from "../../../graphql/client.js";
+import { ReferenceResolver } from "../../../core/resolvers/reference.resolver.js";
 
 /**
  * Handler for project-related operations.
@@ -35,7 +36,7 @@ export class ProjectHandler extends BaseHandler {
    */
   async handleCreateProjectWithIssues(args: any): Promise<BaseToolResponse> {
     try {
-      const client = this.verifyAuth();
+      const client = await this.verifyAuth('write');
       this.validateRequiredParams(args, ["project", "issues"]);
 
       // Validate project input
@@ -74,9 +75,21 @@ export class ProjectHandler extends BaseHandler {
         }
       });
 
+      const resolver = new ReferenceResolver(client);
+      const teamIds: string[] = [];
+      for (const [index, teamId] of args.project.teamIds.entries()) {
+        teamIds.push(await resolver.resolveTeam(teamId, `project.teamIds[${index}]`));
+      }
+      const issues = [];
+      for (const [index, issue] of args.issues.entries()) {
+        issues.push(
+          await resolver.resolveIssueReferences(issue, { path: `issues[${index}]` })
+        );
+      }
+
       const result = await client.createProjectWithIssues(
-        args.project,
-        args.issues
+        { ...args.project, teamIds },
+        issues
       );
 
       if (
@@ -105,7 +118,7 @@ export class ProjectHandler extends BaseHandler {
 
       return this.createResponse(response.join("\n"));
     } catch (error) {
-      this.handleError(error, "create project with issues");
+      return this.handleError(error, "create project with issues");
     }
   }
 
@@ -114,14 +127,15 @@ export class ProjectHandler extends BaseHandler {
    */
   async handleGetProject(args: any): Promise<BaseToolResponse> {
     try {
-      const client = this.verifyAuth();
+      const client = await this.verifyAuth();
       this.validateRequiredParams(args, ["id"]);
 
-      const result = await client.getProject(args.id);
+      const id = await new ReferenceResolver(client).resolveProject(args.id, "id");
+      const result = await client.getProject(id);
 
       return this.createJsonResponse(result);
     } catch (error) {
-      this.handleError(error, "get project info");
+      return this.handleError(error, "get project info");
     }
   }
 
@@ -130,11 +144,11 @@ export class ProjectHandler extends BaseHandler {
    */
   async handleListProjects(args: any = {}): Promise<BaseToolResponse> {
     try {
-      const client = this.verifyAuth();
+      const client = await this.verifyAuth();
       const result = await client.searchProjects(args.filter);
       return this.createJsonResponse(result);
     } catch (error) {
-      this.handleError(error, "list projects");
+      return this.handleError(error, "list projects");
     }
   }
 
@@ -143,11 +157,12 @@ export class ProjectHandler extends BaseHandler {
    */
   async handleGetProjectMilestones(args: any): Promise<BaseToolResponse> {
     try {
-      const client = this.verifyAuth();
+      const client = await this.verifyAuth();
       this.validateRequiredParams(args, ["projectId"]);
 
+      const projectId = await new ReferenceResolver(client).resolveProject(args.projectId);
       const result = await client.getProjectMilestones(
-        args.projectId,
+        projectId,
         args.filter,
         args.first,
         args.after,
@@ -159,7 +174,7 @@ export class ProjectHandler extends BaseHandler {
 
       return this.createJsonResponse(result);
     } catch (error) {
-      this.handleError(error, "get project milestones");
+      return this.handleError(error, "get project milestones");
     }
   }
 
@@ -168,11 +183,11 @@ export class ProjectHandler extends BaseHandler {
    */
   async handleCreateProjectMilestone(args: any): Promise<BaseToolResponse> {
     try {
-      const client = this.verifyAuth();
+      const client = await this.verifyAuth('write');
       this.validateRequiredParams(args, ["projectId", "name"]);
 
       const result = await client.createProjectMilestone({
-        projectId: args.projectId,
+        projectId: await new ReferenceResolver(client).resolveProject(args.projectId),
         name: args.name,
         description: args.description,
         targetDate: args.targetDate,
@@ -181,7 +196,7 @@ export class ProjectHandler extends BaseHandler {
 
       return this.createJsonResponse(result);
     } catch (error) {
-      this.handleError(error, "create project milestone");
+      return this.handleError(error, "create project milestone");
     }
   }
 
@@ -190,7 +205,7 @@ export class ProjectHandler extends BaseHandler {
    */
   async handleUpdateProjectMilestone(args: any): Promise<BaseToolResponse> {
     try {
-      const client = this.verifyAuth();
+      const client = await this.verifyAuth('write');
       this.validateRequiredParams(args, ["id"]);
 
       const result = await client.updateProjectMilestone(args.id, {
@@ -202,7 +217,7 @@ export class ProjectHandler extends BaseHandler {
 
       return this.createJsonResponse(result);
     } catch (error) {
-      this.handleError(error, "update project milestone");
+      return this.handleError(error, "update project milestone");
     }
   }
 
@@ -211,14 +226,14 @@ export class ProjectHandler extends BaseHandler {
    */
   async handleDeleteProjectMilestone(args: any): Promise<BaseToolResponse> {
     try {
-      const client = this.verifyAuth();
+      const client = await this.verifyAuth('write');
       this.validateRequiredParams(args, ["id"]);
 
       const result = await client.deleteProjectMilestone(args.id);
 
       return this.createJsonResponse(result);
     } catch (error) {
-      this.handleError(error, "delete project milestone");
+      return this.handleError(error, "delete project milestone");
     }
   }
 }
@@ -0,0 +1,340 @@
+import { defineTools, READ_ONLY_TOOL, WRITE_TOOL, DESTRUCTIVE_TOOL } from "../../../core/tools/tool.registry.js";
+import { ProjectHandler } from "../handlers/project.handler.js";
+
+/**
+ * Tools for project and project milestone operations.
+ */
+export const projectTools = defineTools(ProjectHandler, [
+  {
+    name: "linear_create_project_with_issues",
+    method: "handleCreateProjectWithIssues",
+    description:
+      "Create a new project with associated issues. Note: Project requires teamIds (array) not teamId (single value).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project: {
+          type: "object",
+          properties: {
+            name: {
+              type: "string",
+              description: "Project name",
+            },
+            description: {
+              type: "string",
+              description: "Project description (optional)",
+            },
+            teamIds: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+              description:
+                "Array of team IDs or keys (e.g. 'ENG') this project belongs to (Required)",
+              minItems: 1,
+            },
+          },
+          required: ["name", "teamIds"],
+        },
+        issues: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              title: {
+                type: "string",
+                description: "Issue title",
+              },
+              description: {
+                type: "string",
+                description: "Issue description",
+              },
+              teamId: {
+                type: "string",
+                description: "Team ID or key (must match one of the project teamIds)",
+              },
+            },
+            required: ["title", "description", "teamId"],
+          },
+          description: "List of issues to create with this project",
+        },
+      },
+      required: ["project", "issues"],
+    },
+    examples: [
+      {
+        description: "Create a project with a single team and issue",
+        value: {
+          project: {
+            name: "Q1 Planning",
+            description: "Q1 2025 Planning Project",
+            teamIds: ["eng-team-id"],
+          },
+          issues: [
+            {
+              title: "Project Setup",
+              description: "Initial project setup tasks",
+              teamId: "eng-team-id",
+            },
+          ],
+        },
+      },
+      {
+        description: "Create a project with multiple teams",
+        value: {
+          project: {
+            name: "Cross-team Initiative",
+            description: "Project spanning multiple teams",
+            teamIds: ["eng-team-id", "design-team-id"],
+          },
+          issues: [
+            {
+              title: "Engineering Tasks",
+              description: "Tasks for engineering team",
+              teamId: "eng-team-id",
+            },
+            {
+              title: "Design Tasks",
+              description: "Tasks for design team",
+              teamId: "design-team-id",
+            },
+          ],
+        },
+      },
+    ],
+    annotations: WRITE_TOOL,
+  },
+
+  {
+    name: "linear_get_project",
+    method: "handleGetProject",
+    description: "Get project information",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Project ID or name",
+        },
+      },
+      required: ["id"],
+    },
+    annotations: READ_ONLY_TOOL,
+  },
+
+  {
+    name: "linear_list_projects",
+    method: "handleListProjects",
+    description: "List all projects or filter them by criteria",
+    inputSchema: {
+      type: "object",
+      properties: {
+        filter: {
+          type: "object",
+          properties: {
+            status: {
+              type: "object",
+              properties: {
+                eq: { type: "string", description: "Equal to" },
+                in: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "In array of values",
+                },
+                neq: { type: "string", description: "Not equal to" },
+                nin: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Not in array of values",
+                },
+              },
+              description: "Filter by project status",
+            },
+            projectMilestones: {
+              type: "object",
+              description: "Filter by project milestones",
+            },
+            projectUpdates: {
+              type: "object",
+              description: "Filter by project updates",
+            },
+            nextProjectMilestone: {
+              type: "object",
+              description: "Filter by next project milestone",
+            },
+            completedProjectMilestones: {
+              type: "object",
+              description: "Filter by completed project milestones",
+            },
+          },
+          description: "Optional filter criteria for projects",
+        },
+      },
+    },
+    annotations: READ_ONLY_TOOL,
+  },
+
+  {
+    name: "linear_get_project_milestones",
+    method: "handleGetProjectMilestones",
+    description: "Get milestones for a project with filtering and pagination",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectId: {
+          type: "string",
+          description: "Project ID or name to get milestones for",
+        },
+        filter: {
+          type: "object",
+          properties: {
+            name: {
+              type: "object",
+              properties: {
+                eq: { type: "string", description: "Equal to" },
+                contains: { type: "string", description: "Contains string" },
+              },
+              description: "Filter by milestone name",
+            },
+            targetDate: {
+              type: "object",
+              properties: {
+                lt: { type: "string", description: "Less than date" },
+                gt: { type: "string", description: "Greater than date" },
+              },
+              description: "Filter by target date",
+            },
+            completed: {
+              type: "boolean",
+              description: "Filter by completion status",
+            },
+          },
+          description: "Optional filter criteria",
+          optional: true,
+        },
+        first: {
+          type: "number",
+          description: "Number of items to return (used with after)",
+          optional: true,
+        },
+        after: {
+          type: "string",
+          description: "Cursor for forward pagination",
+          optional: true,
+        },
+        last: {
+          type: "number",
+          description: "Number of items to return (used with before)",
+          optional: true,
+        },
+        before: {
+          type: "string",
+          description: "Cursor for backward pagination",
+          optional: true,
+        },
+        includeArchived: {
+          type: "boolean",
+          description: "Include archived milestones",
+          optional: true,
+        },
+        orderBy: {
+          type: "string",
+          description: "Field to order by (createdAt or updatedAt)",
+          optional: true,
+        },
+      },
+      required: ["projectId"],
+    },
+    annotations: READ_ONLY_TOOL,
+  },
+
+  {
+    name: "linear_create_project_milestone",
+    method: "handleCreateProjectMilestone",
+    description: "Create a new project milestone",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectId: {
+          type: "string",
+          description: "Project ID or name to create milestone for",
+        },
+        name: {
+          type: "string",
+          description: "Milestone name",
+        },
+        description: {
+          type: "string",
+          description: "Milestone description",
+          optional: true,
+        },
+        targetDate: {
+          type: "string",
+          description: "Target completion date (ISO format)",
+          optional: true,
+        },
+        sortOrder: {
+          type: "number",
+          description: "Sort order for the milestone",
+          optional: true,
+        },
+      },
+      required: ["projectId", "name"],
+    },
+    annotations: WRITE_TOOL,
+  },
+
+  {
+    name: "linear_update_project_milestone",
+    method: "handleUpdateProjectMilestone",
+    description: "Update a project milestone",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Milestone ID to update",
+        },
+        name: {
+          type: "string",
+          description: "New milestone name",
+          optional: true,
+        },
+        description: {
+          type: "string",
+          description: "New milestone description",
+          optional: true,
+        },
+        targetDate: {
+          type: "string",
+          description: "New target completion date (ISO format)",
+          optional: true,
+        },
+        sortOrder: {
+          type: "number",
+          description: "New sort order",
+          optional: true,
+        },
+      },
+      required: ["id"],
+    },
+    annotations: WRITE_TOOL,
+  },
+
+  {
+    name: "linear_delete_project_milestone",
+    method: "handleDeleteProjectMilestone",
+    description: "Delete a project milestone",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Milestone ID to delete",
+        },
+      },
+      required: ["id"],
+    },
+    annotations: DESTRUCTIVE_TOOL,
+  },
+]);
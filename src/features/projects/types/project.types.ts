@@ -144,6 +144,10 @@ export interface ProjectStatusFilter {
  * Project filtering options
  */
 export interface ProjectFilter {
+  name?: {
+    eqIgnoreCase?: string;
+    containsIgnoreCase?: string;
+  };
   projectMilestones?: ProjectMilestoneCollectionFilter;
   projectUpdates?: ProjectUpdatesCollectionFilter;
   nextProjectMilestone?: ProjectMilestoneFilter;
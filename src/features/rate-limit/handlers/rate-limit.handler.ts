@@ -0,0 +1,33 @@
+import { BaseHandler } from '../../../core/handlers/base.handler.js';
+import { BaseToolResponse } from '../../../core/interfaces/tool-handler.interface.js';
+import { LinearAuth } from '../../../auth.js';
+import { LinearGraphQLClient } from '../../../graphql/client.js';
+
+/**
+ * Handler for inspecting Linear's API rate limits.
+ */
+export class RateLimitHandler extends BaseHandler {
+  constructor(auth: LinearAuth, graphqlClient?: LinearGraphQLClient) {
+    super(auth, graphqlClient);
+  }
+
+  /**
+   * Reports the remaining request and complexity budgets, as of the last
+   * response from Linear.
+   */
+  async handleRateLimitStatus(args: any): Promise<BaseToolResponse> {
+    try {
+      const client = await this.verifyAuth();
+      const status = client.getRateLimitStatus();
+
+      return this.createJsonResponse({
+        ...status,
+        ...(!status.requests && !status.complexity && {
+          note: 'No request has been sent to Linear yet',
+        }),
+      });
+    } catch (error) {
+      return this.handleError(error, 'get rate limit status');
+    }
+  }
+}
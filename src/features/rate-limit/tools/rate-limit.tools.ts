@@ -0,0 +1,19 @@
+import { defineTools, READ_ONLY_TOOL } from "../../../core/tools/tool.registry.js";
+import { RateLimitHandler } from "../handlers/rate-limit.handler.js";
+
+/**
+ * Tools for inspecting API rate limits.
+ */
+export const rateLimitTools = defineTools(RateLimitHandler, [
+  {
+    name: "linear_rate_limit_status",
+    method: "handleRateLimitStatus",
+    description:
+      "Get the remaining Linear API request and complexity budgets, when they reset, and how many requests are queued or were retried",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    annotations: READ_ONLY_TOOL,
+  },
+]);
@@ -0,0 +1,248 @@
+import { BaseHandler } from "../../../core/handlers/base.handler.js";
+import { BaseToolResponse } from "../../../core/interfaces/tool-handler.interface.js";
+import { NotFoundError, ValidationError } from "../../../core/errors/linear.errors.js";
+import { LinearAuth } from "../../../auth.js";
+import { LinearGraphQLClient } from "../../../graphql/client.js";
+import { IssueResolver } from "../../issues/resolvers/issue.resolver.js";
+import {
+  CreateIssueRelationInput,
+  DeleteIssueRelationInput,
+  GetDependencyChainInput,
+  GetIssueRelationsInput,
+  IssueRelation,
+  IssueRelationsNode,
+  LinearRelationType,
+  RelatedIssue,
+  RelationHandlerMethods,
+  RelationType,
+} from "../types/relation.types.js";
+
+const DEFAULT_CHAIN_DEPTH = 10;
+const MAX_CHAIN_DEPTH = 50;
+
+/**
+ * How a relation stored by Linear reads from its issue (outward) and from
+ * its related issue (inward).
+ */
+const RELATION_TYPES: Record<LinearRelationType, { outward: RelationType; inward: RelationType }> = {
+  blocks: { outward: "blocks", inward: "blocked_by" },
+  duplicate: { outward: "duplicate_of", inward: "duplicated_by" },
+  related: { outward: "related", inward: "related" },
+  similar: { outward: "similar", inward: "similar" },
+};
+
+/**
+ * Lists the relations of an issue from its point of view: both the relations
+ * it was given and those other issues have to it.
+ */
+export function listRelations(node: IssueRelationsNode): IssueRelation[] {
+  return [
+    ...node.relations.nodes.map((relation) => ({
+      id: relation.id,
+      type: RELATION_TYPES[relation.type].outward,
+      issue: relation.relatedIssue,
+    })),
+    ...node.inverseRelations.nodes.map((relation) => ({
+      id: relation.id,
+      type: RELATION_TYPES[relation.type].inward,
+      issue: relation.issue,
+    })),
+  ];
+}
+
+/**
+ * An issue of a dependency chain, with the issues it's linked to in the
+ * direction followed.
+ */
+interface ChainLink {
+  issue: RelatedIssue;
+  depth: number;
+  next: RelatedIssue[];
+}
+
+/**
+ * Handler for issue relations: blocking, duplicate and related issues.
+ */
+export class RelationHandler extends BaseHandler implements RelationHandlerMethods {
+  constructor(auth: LinearAuth, graphqlClient?: LinearGraphQLClient) {
+    super(auth, graphqlClient);
+  }
+
+  /**
+   * Creates a relation between two issues. "blocked_by" is stored as the
+   * related issue blocking the issue.
+   */
+  async handleCreateIssueRelation(args: CreateIssueRelationInput): Promise<BaseToolResponse> {
+    try {
+      const client = await this.verifyAuth('write');
+      this.validateRequiredParams(args, ["issueId", "relatedIssueId", "type"]);
+
+      const issues = new IssueResolver(client);
+      await issues.prefetch([args.issueId, args.relatedIssueId]);
+      const issueId = await issues.resolveId(args.issueId, "issueId");
+      const relatedIssueId = await issues.resolveId(args.relatedIssueId, "relatedIssueId");
+
+      const input =
+        args.type === "blocked_by"
+          ? { issueId: relatedIssueId, relatedIssueId: issueId, type: "blocks" as const }
+          : {
+              issueId,
+              relatedIssueId,
+              type: args.type === "duplicate_of" ? ("duplicate" as const) : args.type,
+            };
+      const result = await client.createIssueRelation(input);
+
+      if (!result.issueRelationCreate.success) {
+        throw new Error("Failed to create issue relation");
+      }
+
+      const { id, issue, relatedIssue } = result.issueRelationCreate.issueRelation;
+      const [subject, object] =
+        args.type === "blocked_by" ? [relatedIssue, issue] : [issue, relatedIssue];
+      return this.createResponse(
+        `Created relation ${id}: ${subject.identifier} ${args.type.replace("_", " ")} ${object.identifier}`
+      );
+    } catch (error) {
+      return this.handleError(error, "create issue relation");
+    }
+  }
+
+  /**
+   * Lists the relations of an issue, in both directions.
+   */
+  async handleGetIssueRelations(args: GetIssueRelationsInput): Promise<BaseToolResponse> {
+    try {
+      const client = await this.verifyAuth();
+      this.validateRequiredParams(args, ["issueId"]);
+
+      const id = await new IssueResolver(client).resolveId(args.issueId);
+      const [node] = await client.getIssueRelations([id]);
+      if (!node) {
+        throw new NotFoundError(`Issue ${args.issueId} not found`, { field: "issueId" });
+      }
+
+      return this.createJsonResponse({
+        issue: { id: node.id, identifier: node.identifier, title: node.title },
+        relations: listRelations(node),
+      });
+    } catch (error) {
+      return this.handleError(error, "get issue relations");
+    }
+  }
+
+  /**
+   * Deletes a relation by its id, as listed by linear_get_issue_relations.
+   */
+  async handleDeleteIssueRelation(args: DeleteIssueRelationInput): Promise<BaseToolResponse> {
+    try {
+      const client = await this.verifyAuth('write');
+      this.validateRequiredParams(args, ["id"]);
+
+      const result = await client.deleteIssueRelation(args.id);
+
+      if (!result.issueRelationDelete.success) {
+        throw new Error("Failed to delete issue relation");
+      }
+
+      return this.createResponse(`Successfully deleted relation ${args.id}`);
+    } catch (error) {
+      return this.handleError(error, "delete issue relation");
+    }
+  }
+
+  /**
+   * Walks the blocking relations of an issue transitively, level by level,
+   * and reports the cycles found on the way.
+   */
+  async handleGetDependencyChain(args: GetDependencyChainInput): Promise<BaseToolResponse> {
+    try {
+      const client = await this.verifyAuth();
+      this.validateRequiredParams(args, ["issueId"]);
+
+      const direction = args.direction ?? "blocked_by";
+      const maxDepth = args.maxDepth ?? DEFAULT_CHAIN_DEPTH;
+      if (!Number.isInteger(maxDepth) || maxDepth < 1 || maxDepth > MAX_CHAIN_DEPTH) {
+        throw new ValidationError(
+          `maxDepth must be a whole number between 1 and ${MAX_CHAIN_DEPTH}`,
+          { field: "maxDepth" }
+        );
+      }
+
+      const rootId = await new IssueResolver(client).resolveId(args.issueId);
+      const links = new Map<string, ChainLink>();
+      let frontier = [rootId];
+      let truncated = false;
+
+      // The relations of each level of the chain are fetched together
+      for (let depth = 0; frontier.length > 0; depth++) {
+        const nodes = await client.getIssueRelations(frontier);
+        if (depth === 0 && nodes.length === 0) {
+          throw new NotFoundError(`Issue ${args.issueId} not found`, { field: "issueId" });
+        }
+
+        for (const node of nodes) {
+          const next = listRelations(node)
+            .filter((relation) => relation.type === direction)
+            .map((relation) => relation.issue);
+          const { id, identifier, title, state } = node;
+          links.set(node.id, { issue: { id, identifier, title, state }, depth, next });
+        }
+
+        const unvisited = [
+          ...new Set(nodes.flatMap((node) => links.get(node.id)!.next.map((issue) => issue.id))),
+        ].filter((id) => !links.has(id));
+        if (depth === maxDepth && unvisited.length > 0) {
+          truncated = true;
+          break;
+        }
+        frontier = unvisited;
+      }
+
+      const nextKey = direction === "blocked_by" ? "blockedBy" : "blocks";
+      return this.createJsonResponse({
+        issue: links.get(rootId)?.issue.identifier ?? args.issueId,
+        direction,
+        chain: [...links.values()].map(({ issue, depth, next }) => ({
+          ...issue,
+          depth,
+          [nextKey]: next.map((linked) => linked.identifier),
+        })),
+        cycles: this.findCycles(rootId, links),
+        truncated,
+      });
+    } catch (error) {
+      return this.handleError(error, "get dependency chain");
+    }
+  }
+
+  /**
+   * Finds the cycles reachable from the root with a depth-first search, each
+   * as the identifiers along it, ending with the one it started with.
+   */
+  private findCycles(rootId: string, links: Map<string, ChainLink>): string[][] {
+    const cycles: string[][] = [];
+    const seen = new Set<string>();
+    const done = new Set<string>();
+    const path: string[] = [];
+
+    const visit = (id: string): void => {
+      seen.add(id);
+      path.push(id);
+      for (const { id: nextId } of links.get(id)?.next ?? []) {
+        if (!links.has(nextId) || done.has(nextId)) continue;
+        if (seen.has(nextId)) {
+          // Back to an issue on the current path: everything since is a cycle
+          const cycle = path.slice(path.indexOf(nextId));
+          cycles.push([...cycle, nextId].map((cycleId) => links.get(cycleId)!.issue.identifier));
+        } else {
+          visit(nextId);
+        }
+      }
+      path.pop();
+      done.add(id);
+    };
+
+    if (links.has(rootId)) visit(rootId);
+    return cycles;
+  }
+}
@@ -0,0 +1,104 @@
+import {
+  defineTools,
+  READ_ONLY_TOOL,
+  WRITE_TOOL,
+  DESTRUCTIVE_TOOL,
+} from "../../../core/tools/tool.registry.js";
+import { RelationHandler } from "../handlers/relation.handler.js";
+
+/**
+ * Tools for relations between issues: blocking, duplicate and related issues.
+ */
+export const relationTools = defineTools(RelationHandler, [
+  {
+    name: "linear_create_issue_relation",
+    method: "handleCreateIssueRelation",
+    description:
+      "Relate two issues: the issue blocks, is blocked by, duplicates or is related to the other issue",
+    inputSchema: {
+      type: "object",
+      properties: {
+        issueId: {
+          type: "string",
+          description: "Issue UUID or identifier (e.g. 'ENG-123')",
+        },
+        relatedIssueId: {
+          type: "string",
+          description: "UUID or identifier of the other issue",
+        },
+        type: {
+          type: "string",
+          enum: ["blocks", "blocked_by", "duplicate_of", "related"],
+          description: "How the issue relates to the other issue",
+        },
+      },
+      required: ["issueId", "relatedIssueId", "type"],
+    },
+    annotations: WRITE_TOOL,
+  },
+
+  {
+    name: "linear_get_issue_relations",
+    method: "handleGetIssueRelations",
+    description:
+      "List the relations of an issue in both directions (blocks, blocked_by, duplicate_of, duplicated_by, related, similar), with their ids",
+    inputSchema: {
+      type: "object",
+      properties: {
+        issueId: {
+          type: "string",
+          description: "Issue UUID or identifier (e.g. 'ENG-123')",
+        },
+      },
+      required: ["issueId"],
+    },
+    annotations: READ_ONLY_TOOL,
+  },
+
+  {
+    name: "linear_delete_issue_relation",
+    method: "handleDeleteIssueRelation",
+    description: "Remove a relation between two issues",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Relation ID, as listed by linear_get_issue_relations",
+        },
+      },
+      required: ["id"],
+    },
+    annotations: DESTRUCTIVE_TOOL,
+  },
+
+  {
+    name: "linear_get_dependency_chain",
+    method: "handleGetDependencyChain",
+    description:
+      "Follow the blocking relations of an issue transitively: the issues blocking it, the issues blocking those, and so on (or the issues it blocks). Reports dependency cycles",
+    inputSchema: {
+      type: "object",
+      properties: {
+        issueId: {
+          type: "string",
+          description: "Issue UUID or identifier (e.g. 'ENG-123')",
+        },
+        direction: {
+          type: "string",
+          enum: ["blocked_by", "blocks"],
+          description:
+            "Follow the issues blocking this one (blocked_by, default) or the issues it blocks (blocks)",
+          optional: true,
+        },
+        maxDepth: {
+          type: "number",
+          description: "How many levels of relations to follow (default: 10, at most 50)",
+          optional: true,
+        },
+      },
+      required: ["issueId"],
+    },
+    annotations: READ_ONLY_TOOL,
+  },
+]);
@@ -0,0 +1,110 @@
+import { BaseToolResponse } from "../../../core/interfaces/tool-handler.interface.js";
+
+/**
+ * Relation types as stored by Linear. A relation points from `issue` to
+ * `relatedIssue`: "blocks" means the issue blocks the related issue,
+ * "duplicate" that the issue is a duplicate of it.
+ */
+export type LinearRelationType = "blocks" | "duplicate" | "related" | "similar";
+
+/**
+ * Relation types as seen from one of the two issues.
+ */
+export type RelationType =
+  | "blocks"
+  | "blocked_by"
+  | "duplicate_of"
+  | "duplicated_by"
+  | "related"
+  | "similar";
+
+/**
+ * Input types for relation operations
+ */
+
+export interface CreateIssueRelationInput {
+  issueId: string; // UUID or identifier
+  relatedIssueId: string; // UUID or identifier
+  type: "blocks" | "blocked_by" | "duplicate_of" | "related";
+}
+
+export interface DeleteIssueRelationInput {
+  id: string;
+}
+
+export interface GetIssueRelationsInput {
+  issueId: string; // UUID or identifier
+}
+
+export interface GetDependencyChainInput {
+  issueId: string; // UUID or identifier
+  direction?: "blocked_by" | "blocks"; // Which blocking relations to follow
+  maxDepth?: number;
+}
+
+/**
+ * Response types for relation operations
+ */
+
+export interface RelatedIssue {
+  id: string;
+  identifier: string;
+  title: string;
+  state?: {
+    name: string;
+    type: string;
+  };
+}
+
+/**
+ * A relation from the point of view of one of its issues.
+ */
+export interface IssueRelation {
+  id: string;
+  type: RelationType;
+  issue: RelatedIssue;
+}
+
+export interface IssueRelationsNode extends RelatedIssue {
+  relations: {
+    nodes: Array<{ id: string; type: LinearRelationType; relatedIssue: RelatedIssue }>;
+  };
+  inverseRelations: {
+    nodes: Array<{ id: string; type: LinearRelationType; issue: RelatedIssue }>;
+  };
+}
+
+export interface IssueRelationsResponse {
+  issues: {
+    nodes: IssueRelationsNode[];
+  };
+}
+
+export interface CreateIssueRelationResponse {
+  issueRelationCreate: {
+    success: boolean;
+    issueRelation: {
+      id: string;
+      type: LinearRelationType;
+      issue: RelatedIssue;
+      relatedIssue: RelatedIssue;
+    };
+  };
+}
+
+export interface DeleteIssueRelationResponse {
+  issueRelationDelete: {
+    success: boolean;
+  };
+}
+
+/**
+ * Handler method types
+ */
+
+export interface RelationHandlerMethods {
+  handleCreateIssueRelation(args: CreateIssueRelationInput): Promise<BaseToolResponse>;
+  handleGetIssueRelations(args: GetIssueRelationsInput): Promise<BaseToolResponse>;
+  handleDeleteIssueRelation(args: DeleteIssueRelationInput): Promise<BaseToolResponse>;
+  handleGetDependencyChain(args: GetDependencyChainInput): Promise<BaseToolResponse>;
+}
@@ -17,13 +17,13 @@ export class TeamHandler extends BaseHandler {
    */
   async handleGetTeams(args: any): Promise<BaseToolResponse> {
     try {
-      const client = this.verifyAuth();
+      const client = await this.verifyAuth();
 
       const result = await client.getTeams();
 
       return this.createJsonResponse(result);
     } catch (error) {
-      this.handleError(error, 'get teams');
+      return this.handleError(error, 'get teams');
     }
   }
 }
@@ -0,0 +1,18 @@
+import { defineTools, READ_ONLY_TOOL } from "../../../core/tools/tool.registry.js";
+import { TeamHandler } from "../handlers/team.handler.js";
+
+/**
+ * Tools for team operations.
+ */
+export const teamTools = defineTools(TeamHandler, [
+  {
+    name: "linear_get_teams",
+    method: "handleGetTeams",
+    description: "Get all teams with their states and labels",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    annotations: READ_ONLY_TOOL,
+  },
+]);
@@ -8,19 +8,46 @@ export interface TeamState {
   type: string;
 }
 
+export interface TeamLabel {
+  id: string;
+  name: string;
+}
+
 export interface Team {
   id: string;
   name: string;
   key: string;
-  states: TeamState[];
+  states: {
+    nodes: TeamState[];
+  };
+  labels: {
+    nodes: TeamLabel[];
+  };
 }
 
 export interface TeamResponse {
   teams: {
+    pageInfo: {
+      hasNextPage: boolean;
+      endCursor: string | null;
+    };
     nodes: Team[];
   };
 }
 
+/**
+ * Issue labels of the workspace, including those not bound to a team
+ */
+export interface LabelsResponse {
+  issueLabels: {
+    pageInfo: {
+      hasNextPage: boolean;
+      endCursor: string | null;
+    };
+    nodes: Array<TeamLabel & { team?: { id: string } | null }>;
+  };
+}
+
 export interface LabelInput {
   name: string;
   color?: string;
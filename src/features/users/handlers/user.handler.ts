@@ -17,13 +17,13 @@ export class UserHandler extends BaseHandler {
    */
   async handleGetUser(args: any): Promise<BaseToolResponse> {
     try {
-      const client = this.verifyAuth();
+      const client = await this.verifyAuth();
 
       const result = await client.getCurrentUser();
 
       return this.createJsonResponse(result);
     } catch (error) {
-      this.handleError(error, 'get user info');
+      return this.handleError(error, 'get user info');
     }
   }
 }
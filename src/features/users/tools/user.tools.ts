@@ -0,0 +1,18 @@
+import { defineTools, READ_ONLY_TOOL } from "../../../core/tools/tool.registry.js";
+import { UserHandler } from "../handlers/user.handler.js";
+
+/**
+ * Tools for user operations.
+ */
+export const userTools = defineTools(UserHandler, [
+  {
+    name: "linear_get_user",
+    method: "handleGetUser",
+    description: "Get current user information",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    annotations: READ_ONLY_TOOL,
+  },
+]);
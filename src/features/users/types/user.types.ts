@@ -11,3 +11,13 @@ export interface User {
 export interface UserResponse {
   viewer: User;
 }
+
+export interface UsersResponse {
+  users: {
+    pageInfo: {
+      hasNextPage: boolean;
+      endCursor: string | null;
+    };
+    nodes: Array<User & { displayName: string; active: boolean }>;
+  };
+}
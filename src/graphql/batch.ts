@@ -0,0 +1,41 @@
+/** Most issues Linear accepts in a single batch mutation */
+export const ISSUE_BATCH_SIZE = 50;
+
+/** Batch mutations sent at the same time */
+export const BATCH_CONCURRENCY = 3;
+
+/**
+ * Splits items into chunks of at most `size` items.
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    chunks.push(items.slice(start, start + size));
+  }
+  return chunks;
+}
+
+/**
+ * Maps items with an async function, running at most `concurrency` calls at
+ * a time. Results keep the order of the items.
+ */
+export async function mapConcurrently<T, R>(
+  items: T[],
+  concurrency: number,
+  map: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await map(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, () => worker())
+  );
+  return results;
+}
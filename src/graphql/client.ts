@@ -1,16 +1,23 @@
 import { LinearClient } from "@linear/sdk";
-import { DocumentNode } from "graphql";
+import { DocumentNode, Kind } from "graphql";
 import {
   CreateIssueInput,
   CreateIssueResponse,
   CreateIssuesResponse,
   UpdateIssueInput,
   UpdateIssueResponse,
+  UpdateIssuesResponse,
+  IssueUpdateResult,
+  IssueMutationResult,
   SearchIssuesInput,
   SearchIssuesResponse,
   DeleteIssueResponse,
   Issue,
   IssueBatchResponse,
+  IssueReferencesResponse,
+  IssueDetail,
+  IssueDetailResponse,
+  IssueCommentsResponse,
 } from "../features/issues/types/issue.types.js";
 import {
   ProjectInput,
@@ -21,35 +28,239 @@ import {
   ProjectMilestone,
 } from "../features/projects/types/project.types.js";
 import {
+  Team,
   TeamResponse,
   LabelInput,
   LabelResponse,
+  LabelsResponse,
 } from "../features/teams/types/team.types.js";
-import { UserResponse } from "../features/users/types/user.types.js";
+import { UserResponse, UsersResponse } from "../features/users/types/user.types.js";
+import {
+  CreateIssueRelationResponse,
+  DeleteIssueRelationResponse,
+  IssueRelationsNode,
+  IssueRelationsResponse,
+  LinearRelationType,
+} from "../features/relations/types/relation.types.js";
+import {
+  IssueHistory,
+  IssueHistoryResponse,
+} from "../features/history/types/history.types.js";
+import {
+  AttachmentResponse,
+  CreateAttachmentResponse,
+  DeleteAttachmentResponse,
+  IssueAttachmentsResponse,
+  UpdateAttachmentResponse,
+} from "../features/attachments/types/attachment.types.js";
+import { FileUploadResponse, UploadedFile } from "../features/files/types/file.types.js";
+import {
+  RateLimitMiddleware,
+  RateLimitOptions,
+  RateLimitStatus,
+} from "./rate-limit.middleware.js";
+import { IssueIdentifier, issueIdentifierFilters, parseIssueIdentifier } from "./filters.js";
+import { BATCH_CONCURRENCY, ISSUE_BATCH_SIZE, chunk, mapConcurrently } from "./batch.js";
+import { CacheStore } from "../core/cache/cache.store.js";
+import { LinearApiError, LinearErrorKind } from "../core/errors/linear.errors.js";
+
+export interface LinearGraphQLClientOptions {
+  rateLimit?: RateLimitOptions;
+  /** Cache for reference data (teams, users, projects). No caching without one */
+  cache?: CacheStore;
+}
+
+/**
+ * Reference data that is cached, with the prefix of its cache keys.
+ */
+export const CACHED_DATA = {
+  teams: "teams",
+  users: "users",
+  projects: "project",
+} as const;
+
+export type CachedData = keyof typeof CACHED_DATA;
+
+/**
+ * A connection as returned by Linear, e.g. the `users` of the workspace.
+ */
+interface Connection<N> {
+  pageInfo: {
+    hasNextPage: boolean;
+    endCursor: string | null;
+  };
+  nodes: N[];
+}
+
+/**
+ * Errors of a batch mutation that may be caused by a single issue of the batch.
+ */
+const ISSUE_ERRORS: LinearErrorKind[] = ["validation", "not_found", "forbidden", "conflict"];
+
+const isMutation = (document: DocumentNode): boolean =>
+  document.definitions.some(
+    (definition) =>
+      definition.kind === Kind.OPERATION_DEFINITION && definition.operation === "mutation"
+  );
+
+const isAuthExpired = (error: unknown): boolean =>
+  error instanceof LinearApiError && error.kind === "auth_expired";
+
+const failedResult = (id: string, error: unknown): IssueMutationResult => ({
+  id,
+  success: false,
+  error: error instanceof Error ? error.message : String(error),
+});
+
+/** Most identifiers looked up in a single request */
+const IDENTIFIER_BATCH_SIZE = 100;
+
+/** Most issues whose relations are fetched in a single request */
+const RELATIONS_BATCH_SIZE = 50;
+
+/** Comments fetched per request, and most pages of them followed per issue */
+const COMMENTS_PAGE_SIZE = 100;
+const MAX_COMMENT_PAGES = 10;
+
+/** History entries fetched per request, and most pages of them followed per issue */
+const HISTORY_PAGE_SIZE = 100;
+const MAX_HISTORY_PAGES = 10;
+
+/**
+ * Teams, users and labels fetched per request, and most pages of them
+ * followed. Teams come with their states and labels, so fewer fit a request.
+ */
+const TEAMS_PAGE_SIZE = 50;
+const REFERENCE_PAGE_SIZE = 250;
+const MAX_REFERENCE_PAGES = 20;
+
+/**
+ * Cache keys invalidated by mutations, by the name of the mutation field.
+ * Issue and milestone changes only affect single projects (their milestones'
+ * issues), not the project search results.
+ */
+const INVALIDATED_BY_MUTATION: Array<[RegExp, string[]]> = [
+  [/^(team|workflowState|issueLabel)/, ["teams", "users"]],
+  [/^(user|viewer)/, ["users"]],
+  [/^project(?!Milestone)/, ["project"]],
+  [/^(projectMilestone|issue)/, ["project:"]],
+];
 
 export class LinearGraphQLClient {
   private linearClient: LinearClient;
+  private readonly rateLimit: RateLimitMiddleware;
+  private readonly cache?: CacheStore;
+
+  constructor(linearClient: LinearClient, options: LinearGraphQLClientOptions = {}) {
+    this.linearClient = linearClient;
+    this.rateLimit = new RateLimitMiddleware(options.rateLimit);
+    this.cache = options.cache;
+  }
 
-  constructor(linearClient: LinearClient) {
+  // Swap the underlying client, e.g. after an OAuth token refresh
+  setLinearClient(linearClient: LinearClient): void {
     this.linearClient = linearClient;
   }
 
+  // Current rate limit budgets, as reported by Linear
+  getRateLimitStatus(): RateLimitStatus {
+    return this.rateLimit.getStatus();
+  }
+
+  get cacheEnabled(): boolean {
+    return this.cache !== undefined;
+  }
+
+  // Drop cached reference data, e.g. after it was changed outside this server
+  async clearCache(data?: CachedData[]): Promise<void> {
+    if (!this.cache) return;
+    if (!data) {
+      await this.cache.clear();
+      return;
+    }
+    for (const kind of data) {
+      await this.cache.clear(CACHED_DATA[kind]);
+    }
+  }
+
+  // Run a GraphQL document, retrying rate limited requests and transient
+  // failures. Failures are thrown as a LinearApiError subclass
+  // (NotFoundError, RateLimitedError, ...) describing what went wrong.
+  // Mutations invalidate the cached data they may have changed
   async execute<T, V extends Record<string, unknown> = Record<string, unknown>>(
     document: DocumentNode,
     variables?: V
   ): Promise<T> {
-    const graphQLClient = this.linearClient.client;
     try {
-      const response = await graphQLClient.rawRequest(
-        document.loc?.source.body || "",
-        variables
+      const response = await this.rateLimit.run(
+        () =>
+          this.linearClient.client.rawRequest<T, Record<string, unknown>>(
+            document.loc?.source.body || "",
+            variables
+          ),
+        isMutation(document) ? "mutation" : "query"
       );
       return response.data as T;
-    } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`GraphQL operation failed: ${error.message}`);
+    } finally {
+      // Failed mutations may still have been partially applied
+      await this.invalidateCache(document);
+    }
+  }
+
+  // Fetch the nodes of a top-level connection, following up to
+  // MAX_REFERENCE_PAGES pages. The page info is the one of the last page
+  // fetched, so `hasNextPage` tells whether nodes were left out
+  private async fetchAllPages<N>(
+    document: DocumentNode,
+    field: string,
+    pageSize = REFERENCE_PAGE_SIZE
+  ): Promise<Connection<N>> {
+    const nodes: N[] = [];
+    let pageInfo: Connection<N>["pageInfo"] = { hasNextPage: false, endCursor: null };
+    for (let page = 0; page < MAX_REFERENCE_PAGES; page++) {
+      const result = await this.execute<Record<string, Connection<N>>>(document, {
+        first: pageSize,
+        after: pageInfo.endCursor,
+      });
+      const connection = result[field];
+      nodes.push(...connection.nodes);
+      pageInfo = connection.pageInfo ?? { hasNextPage: false, endCursor: null };
+      if (!pageInfo.hasNextPage) {
+        break;
       }
-      throw error;
+    }
+    return { pageInfo, nodes };
+  }
+
+  // Returns the cached result for `key`, loading and caching it if missing
+  private async cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    if (!this.cache) return load();
+
+    const hit = await this.cache.get(key);
+    if (hit !== undefined) return hit as T;
+
+    const value = await load();
+    await this.cache.set(key, value);
+    return value;
+  }
+
+  private async invalidateCache(document: DocumentNode): Promise<void> {
+    if (!this.cache) return;
+
+    const fields = document.definitions.flatMap((definition) =>
+      definition.kind === Kind.OPERATION_DEFINITION && definition.operation === "mutation"
+        ? definition.selectionSet.selections.flatMap((selection) =>
+            selection.kind === Kind.FIELD ? [selection.name.value] : []
+          )
+        : []
+    );
+    const prefixes = new Set(
+      INVALIDATED_BY_MUTATION.filter(([pattern]) =>
+        fields.some((field) => pattern.test(field))
+      ).flatMap(([, keys]) => keys)
+    );
+    for (const prefix of prefixes) {
+      await this.cache.clear(prefix);
     }
   }
 
@@ -115,17 +326,81 @@ export class LinearGraphQLClient {
     });
   }
 
-  // Bulk update issues
+  // Bulk update issues. Returns the outcome for every issue instead of
+  // failing as a whole.
   async updateIssues(
     ids: string[],
     input: UpdateIssueInput
-  ): Promise<UpdateIssueResponse> {
-    // Handle bulk updates one at a time since the API only supports single updates
-    const updates = await Promise.all(
-      ids.map((id) => this.updateIssue(id, input))
-    );
+  ): Promise<IssueUpdateResult[]> {
+    const { UPDATE_ISSUES_MUTATION } = await import("./mutations.js");
 
-    return updates[0]; // Return the first response as they should all be similar
+    return this.mutateIssues(ids, async (batch) => {
+      const { issueBatchUpdate } = await this.execute<UpdateIssuesResponse>(
+        UPDATE_ISSUES_MUTATION,
+        { ids: batch, input }
+      );
+      const updated = new Map(issueBatchUpdate.issues.map((issue) => [issue.id, issue]));
+      return batch.map((id) => {
+        const issue = updated.get(id);
+        return issueBatchUpdate.success && issue
+          ? { id, success: true, issue }
+          : failedResult(id, new Error("Linear didn't report the issue as updated"));
+      });
+    });
+  }
+
+  // Bulk delete (move to the trash) or archive issues. Returns the outcome
+  // for every issue instead of failing as a whole.
+  async deleteIssues(
+    ids: string[],
+    options: { archive?: boolean } = {}
+  ): Promise<IssueMutationResult[]> {
+    const { buildDeleteIssuesMutation } = await import("./mutations.js");
+
+    return this.mutateIssues(ids, async (batch) => {
+      const variables = Object.fromEntries(batch.map((id, index) => [`id${index}`, id]));
+      const data = await this.execute<Record<string, { success: boolean }>>(
+        buildDeleteIssuesMutation(batch.length, options.archive ?? false),
+        variables
+      );
+      return batch.map((id, index) =>
+        data[`issue${index}`]?.success
+          ? { id, success: true }
+          : failedResult(id, new Error("Linear didn't report the issue as deleted"))
+      );
+    });
+  }
+
+  // Runs a mutation over issues in batches of ISSUE_BATCH_SIZE, a few batches
+  // at a time. A batch fails as a whole when one of its issues can't be
+  // changed, so the issues of such a batch are retried one by one to tell
+  // which of them failed. Other failures fail all issues of the batch, except
+  // for an expired token, which fails the whole operation.
+  private async mutateIssues<R extends IssueMutationResult>(
+    ids: string[],
+    mutate: (batch: string[]) => Promise<R[]>
+  ): Promise<Array<R | IssueMutationResult>> {
+    const run = async (batch: string[]): Promise<Array<R | IssueMutationResult>> => {
+      try {
+        return await mutate(batch);
+      } catch (error) {
+        const isIssueError =
+          error instanceof LinearApiError && ISSUE_ERRORS.includes(error.kind);
+        if (isAuthExpired(error)) throw error;
+        if (batch.length === 1 || !isIssueError) {
+          return batch.map((id) => failedResult(id, error));
+        }
+        const results = await mapConcurrently(batch, BATCH_CONCURRENCY, (id) => run([id]));
+        return results.flat();
+      }
+    };
+
+    const batches = await mapConcurrently(
+      chunk(ids, ISSUE_BATCH_SIZE),
+      BATCH_CONCURRENCY,
+      run
+    );
+    return batches.flat();
   }
 
   // Create multiple labels
@@ -141,16 +416,9 @@ export class LinearGraphQLClient {
     after?: string,
     orderBy: string = "updatedAt"
   ): Promise<SearchIssuesResponse> {
-    // Use GET_ISSUES_BY_IDENTIFIER for identifier searches
+    // Identifier searches ignore the other filters
     if (filter?.identifier?.in) {
-      const { GET_ISSUES_BY_IDENTIFIER } = await import("./queries.js");
-      // Extract numbers from identifiers (e.g., "78" from "MIC-78") and convert to Float
-      const numbers = filter.identifier.in.map((id) =>
-        parseFloat(id.split("-")[1])
-      );
-      return this.execute<SearchIssuesResponse>(GET_ISSUES_BY_IDENTIFIER, {
-        numbers,
-      });
+      return this.getIssuesByIdentifier(filter.identifier.in);
     }
 
     // Use regular search query for other filters
@@ -163,22 +431,142 @@ export class LinearGraphQLClient {
     });
   }
 
+  // Get issues by identifier (e.g. "ENG-123"), of any number of teams. Values
+  // that aren't identifiers match no issue.
+  async getIssuesByIdentifier(identifiers: string[]): Promise<SearchIssuesResponse> {
+    const { GET_ISSUES_BY_IDENTIFIER } = await import("./queries.js");
+    const parsed = identifiers
+      .map(parseIssueIdentifier)
+      .filter((identifier): identifier is IssueIdentifier => identifier !== undefined);
+
+    const nodes: Issue[] = [];
+    for (let start = 0; start < parsed.length; start += IDENTIFIER_BATCH_SIZE) {
+      const batch = parsed.slice(start, start + IDENTIFIER_BATCH_SIZE);
+      const { issues } = await this.execute<SearchIssuesResponse>(GET_ISSUES_BY_IDENTIFIER, {
+        filter: { or: issueIdentifierFilters(batch) },
+        first: batch.length,
+      });
+      nodes.push(...issues.nodes);
+    }
+
+    return { issues: { pageInfo: { hasNextPage: false, endCursor: null }, nodes } };
+  }
+
+  // Get an issue with its comments, attachments, sub-issues, relations and
+  // recent history. Comments are paged through up to MAX_COMMENT_PAGES.
+  async getIssueDetail(id: string): Promise<IssueDetail | null> {
+    const { GET_ISSUE_DETAIL_QUERY, GET_ISSUE_COMMENTS_QUERY } = await import("./queries.js");
+    const { issue } = await this.execute<IssueDetailResponse>(GET_ISSUE_DETAIL_QUERY, {
+      id,
+      commentsFirst: COMMENTS_PAGE_SIZE,
+    });
+    if (!issue) {
+      return null;
+    }
+
+    let { pageInfo } = issue.comments;
+    const comments = [...issue.comments.nodes];
+    for (let page = 1; pageInfo.hasNextPage && page < MAX_COMMENT_PAGES; page++) {
+      const result = await this.execute<IssueCommentsResponse>(GET_ISSUE_COMMENTS_QUERY, {
+        id,
+        first: COMMENTS_PAGE_SIZE,
+        after: pageInfo.endCursor,
+      });
+      if (!result.issue) {
+        break;
+      }
+      comments.push(...result.issue.comments.nodes);
+      pageInfo = result.issue.comments.pageInfo;
+    }
+
+    return { ...issue, comments: { pageInfo, nodes: comments } };
+  }
+
+  // Get the history of an issue, following up to MAX_HISTORY_PAGES pages of
+  // it. Null when there's no such issue.
+  async getIssueHistory(id: string): Promise<IssueHistory | null> {
+    const { GET_ISSUE_HISTORY_QUERY } = await import("./queries.js");
+    const entries: IssueHistory["entries"] = [];
+    let issue: IssueHistoryResponse["issue"] = null;
+    let after: string | null = null;
+
+    for (let page = 0; page < MAX_HISTORY_PAGES; page++) {
+      const result: IssueHistoryResponse = await this.execute<IssueHistoryResponse>(
+        GET_ISSUE_HISTORY_QUERY,
+        { id, first: HISTORY_PAGE_SIZE, after }
+      );
+      if (!result.issue) {
+        break;
+      }
+      issue = result.issue;
+      entries.push(...issue.history.nodes);
+      if (!issue.history.pageInfo.hasNextPage) {
+        break;
+      }
+      after = issue.history.pageInfo.endCursor;
+    }
+
+    if (!issue) {
+      return null;
+    }
+    return {
+      id: issue.id,
+      identifier: issue.identifier,
+      entries,
+      truncated: issue.history.pageInfo.hasNextPage,
+    };
+  }
+
   // Get teams with their states and labels
   async getTeams(): Promise<TeamResponse> {
     const { GET_TEAMS_QUERY } = await import("./queries.js");
-    return this.execute<TeamResponse>(GET_TEAMS_QUERY);
+    return this.cached("teams", async () => ({
+      teams: await this.fetchAllPages<Team>(GET_TEAMS_QUERY, "teams", TEAMS_PAGE_SIZE),
+    }));
   }
 
   // Get current user info
   async getCurrentUser(): Promise<UserResponse> {
     const { GET_USER_QUERY } = await import("./queries.js");
-    return this.execute<UserResponse>(GET_USER_QUERY);
+    return this.cached("users:viewer", () => this.execute<UserResponse>(GET_USER_QUERY));
+  }
+
+  // Get the users of the workspace
+  async getUsers(): Promise<UsersResponse> {
+    const { GET_USERS_QUERY } = await import("./queries.js");
+    return this.cached("users:all", async () => ({
+      users: await this.fetchAllPages<UsersResponse["users"]["nodes"][number]>(
+        GET_USERS_QUERY,
+        "users"
+      ),
+    }));
+  }
+
+  // Get all issue labels, including workspace labels not bound to a team
+  async getLabels(): Promise<LabelsResponse> {
+    const { GET_LABELS_QUERY } = await import("./queries.js");
+    return this.cached("teams:labels", async () => ({
+      issueLabels: await this.fetchAllPages<LabelsResponse["issueLabels"]["nodes"][number]>(
+        GET_LABELS_QUERY,
+        "issueLabels"
+      ),
+    }));
+  }
+
+  // Get the id, identifier and team of the issues matching a filter
+  async getIssueReferences(
+    filter: Record<string, unknown>
+  ): Promise<IssueReferencesResponse> {
+    const { GET_ISSUE_REFERENCES_QUERY } = await import("./queries.js");
+    return this.execute<IssueReferencesResponse>(GET_ISSUE_REFERENCES_QUERY, { filter });
   }
 
   // Get project info
   async getProject(id: string): Promise<ProjectResponse> {
     const { GET_PROJECT_QUERY } = await import("./queries.js");
-    return this.execute<ProjectResponse>(GET_PROJECT_QUERY, { id });
+    return this.cached(`project:${id}`, () =>
+      this.execute<ProjectResponse>(GET_PROJECT_QUERY, { id })
+    );
   }
 
   // Search projects
@@ -186,9 +574,11 @@ export class LinearGraphQLClient {
     filter?: ProjectFilter
   ): Promise<SearchProjectsResponse> {
     const { SEARCH_PROJECTS_QUERY } = await import("./queries.js");
-    return this.execute<SearchProjectsResponse>(SEARCH_PROJECTS_QUERY, {
-      filter,
-    });
+    return this.cached(`projects:${JSON.stringify(filter ?? {})}`, () =>
+      this.execute<SearchProjectsResponse>(SEARCH_PROJECTS_QUERY, {
+        filter,
+      })
+    );
   }
 
   // Delete a single issue
@@ -199,6 +589,122 @@ export class LinearGraphQLClient {
     });
   }
 
+  // Get issues with their relations, in both directions
+  async getIssueRelations(ids: string[]): Promise<IssueRelationsNode[]> {
+    const { GET_ISSUE_RELATIONS_QUERY } = await import("./queries.js");
+    const batches = await mapConcurrently(
+      chunk(ids, RELATIONS_BATCH_SIZE),
+      BATCH_CONCURRENCY,
+      async (batch) => {
+        const { issues } = await this.execute<IssueRelationsResponse>(
+          GET_ISSUE_RELATIONS_QUERY,
+          { ids: batch }
+        );
+        return issues.nodes;
+      }
+    );
+    return batches.flat();
+  }
+
+  // Create a relation from one issue to another
+  async createIssueRelation(input: {
+    issueId: string;
+    relatedIssueId: string;
+    type: LinearRelationType;
+  }): Promise<CreateIssueRelationResponse> {
+    const { CREATE_ISSUE_RELATION } = await import("./mutations.js");
+    return this.execute<CreateIssueRelationResponse>(CREATE_ISSUE_RELATION, { input });
+  }
+
+  // Delete an issue relation
+  async deleteIssueRelation(id: string): Promise<DeleteIssueRelationResponse> {
+    const { DELETE_ISSUE_RELATION } = await import("./mutations.js");
+    return this.execute<DeleteIssueRelationResponse>(DELETE_ISSUE_RELATION, { id });
+  }
+
+  // Get the attachments of an issue
+  async getIssueAttachments(issueId: string): Promise<IssueAttachmentsResponse> {
+    const { GET_ISSUE_ATTACHMENTS_QUERY } = await import("./queries.js");
+    return this.execute<IssueAttachmentsResponse>(GET_ISSUE_ATTACHMENTS_QUERY, { id: issueId });
+  }
+
+  // Get a single attachment
+  async getAttachment(id: string): Promise<AttachmentResponse> {
+    const { GET_ATTACHMENT_QUERY } = await import("./queries.js");
+    return this.execute<AttachmentResponse>(GET_ATTACHMENT_QUERY, { id });
+  }
+
+  // Attach a URL to an issue. Linear updates the existing attachment when the
+  // issue already has one with the same URL.
+  async createAttachment(input: {
+    issueId: string;
+    url: string;
+    title: string;
+    subtitle?: string;
+    metadata?: Record<string, unknown>;
+    iconUrl?: string;
+  }): Promise<CreateAttachmentResponse> {
+    const { CREATE_ATTACHMENT } = await import("./mutations.js");
+    return this.execute<CreateAttachmentResponse>(CREATE_ATTACHMENT, { input });
+  }
+
+  // Update an attachment; Linear requires its title on every update
+  async updateAttachment(
+    id: string,
+    input: {
+      title: string;
+      subtitle?: string;
+      metadata?: Record<string, unknown>;
+      iconUrl?: string;
+    }
+  ): Promise<UpdateAttachmentResponse> {
+    const { UPDATE_ATTACHMENT } = await import("./mutations.js");
+    return this.execute<UpdateAttachmentResponse>(UPDATE_ATTACHMENT, { id, input });
+  }
+
+  // Delete an attachment
+  async deleteAttachment(id: string): Promise<DeleteAttachmentResponse> {
+    const { DELETE_ATTACHMENT } = await import("./mutations.js");
+    return this.execute<DeleteAttachmentResponse>(DELETE_ATTACHMENT, { id });
+  }
+
+  // Upload a file to Linear's storage: Linear signs an upload URL, which the
+  // content is then PUT to. The asset URL can be linked from any markdown.
+  async uploadFile(file: {
+    filename: string;
+    contentType: string;
+    data: Buffer;
+  }): Promise<UploadedFile> {
+    const { FILE_UPLOAD } = await import("./mutations.js");
+    const { filename, contentType, data } = file;
+    const { fileUpload } = await this.execute<FileUploadResponse>(FILE_UPLOAD, {
+      contentType,
+      filename,
+      size: data.length,
+    });
+
+    if (!fileUpload.success || !fileUpload.uploadFile) {
+      throw new Error(`Failed to request an upload URL for ${filename}`);
+    }
+
+    const { uploadUrl, assetUrl, headers } = fileUpload.uploadFile;
+    const response = await fetch(uploadUrl, {
+      method: "PUT",
+      headers: {
+        "Content-Type": contentType,
+        "Cache-Control": "public, max-age=31536000",
+        ...Object.fromEntries(headers.map(({ key, value }) => [key, value])),
+      },
+      body: new Uint8Array(data),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to upload ${filename}: ${response.status} ${response.statusText}`);
+    }
+
+    return { filename, contentType, size: data.length, assetUrl };
+  }
+
   // Get project milestones
   async getProjectMilestones(
     projectId: string,
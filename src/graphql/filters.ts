@@ -0,0 +1,33 @@
+const IDENTIFIER_PATTERN = /^([a-z][a-z0-9_]*)-(\d+)$/i;
+
+/**
+ * An issue identifier like "ENG-123", split into its parts.
+ */
+export interface IssueIdentifier {
+  teamKey: string;
+  number: number;
+}
+
+/**
+ * Parses an issue identifier, or returns undefined if the value isn't one.
+ */
+export function parseIssueIdentifier(value: string): IssueIdentifier | undefined {
+  const match = value.trim().match(IDENTIFIER_PATTERN);
+  if (!match) return undefined;
+
+  return { teamKey: match[1].toUpperCase(), number: Number(match[2]) };
+}
+
+/**
+ * IssueFilter conditions matching issues by identifier, to be combined with
+ * `or`. Issue numbers are only unique within a team, so each condition
+ * matches the team key as well.
+ */
+export function issueIdentifierFilters(
+  identifiers: IssueIdentifier[]
+): Array<Record<string, unknown>> {
+  return identifiers.map(({ teamKey, number }) => ({
+    team: { key: { eq: teamKey } },
+    number: { eq: number },
+  }));
+}
@@ -1,4 +1,5 @@
 import { gql } from "graphql-tag";
+import { DocumentNode } from "graphql";
 
 export const CREATE_ISSUE_MUTATION = gql`
   mutation CreateIssue($input: IssueCreateInput!) {
@@ -107,6 +108,22 @@ export const UPDATE_ISSUE_MUTATION = gql`
   }
 `;
 
+export const UPDATE_ISSUES_MUTATION = gql`
+  mutation UpdateIssues($ids: [UUID!]!, $input: IssueUpdateInput!) {
+    issueBatchUpdate(ids: $ids, input: $input) {
+      success
+      issues {
+        id
+        identifier
+        title
+        url
+        updatedAt
+      }
+      lastSyncId
+    }
+  }
+`;
+
 export const DELETE_ISSUE_MUTATION = gql`
   mutation DeleteIssue($id: String!) {
     issueDelete(id: $id) {
@@ -115,6 +132,120 @@ export const DELETE_ISSUE_MUTATION = gql`
   }
 `;
 
+/**
+ * Deletes or archives `count` issues in one request, with the ids passed as
+ * `$id0`, `$id1`, ... and the results aliased `issue0`, `issue1`, ...
+ */
+export const buildDeleteIssuesMutation = (count: number, archive: boolean): DocumentNode => {
+  const indexes = Array.from({ length: count }, (_, index) => index);
+  const field = archive ? "issueArchive" : "issueDelete";
+  return gql(`
+    mutation ${archive ? "ArchiveIssues" : "DeleteIssues"}(${indexes
+      .map((index) => `$id${index}: String!`)
+      .join(", ")}) {
+      ${indexes.map((index) => `issue${index}: ${field}(id: $id${index}) { success }`).join("\n      ")}
+    }
+  `);
+};
+
+export const CREATE_ISSUE_RELATION = gql`
+  mutation CreateIssueRelation($input: IssueRelationCreateInput!) {
+    issueRelationCreate(input: $input) {
+      success
+      issueRelation {
+        id
+        type
+        issue {
+          id
+          identifier
+          title
+        }
+        relatedIssue {
+          id
+          identifier
+          title
+        }
+      }
+    }
+  }
+`;
+
+export const DELETE_ISSUE_RELATION = gql`
+  mutation DeleteIssueRelation($id: String!) {
+    issueRelationDelete(id: $id) {
+      success
+    }
+  }
+`;
+
+export const CREATE_ATTACHMENT = gql`
+  mutation CreateAttachment($input: AttachmentCreateInput!) {
+    attachmentCreate(input: $input) {
+      success
+      attachment {
+        id
+        title
+        subtitle
+        url
+        sourceType
+        metadata
+        createdAt
+        updatedAt
+        creator {
+          id
+          name
+        }
+      }
+    }
+  }
+`;
+
+export const UPDATE_ATTACHMENT = gql`
+  mutation UpdateAttachment($id: String!, $input: AttachmentUpdateInput!) {
+    attachmentUpdate(id: $id, input: $input) {
+      success
+      attachment {
+        id
+        title
+        subtitle
+        url
+        sourceType
+        metadata
+        createdAt
+        updatedAt
+        creator {
+          id
+          name
+        }
+      }
+    }
+  }
+`;
+
+export const DELETE_ATTACHMENT = gql`
+  mutation DeleteAttachment($id: String!) {
+    attachmentDelete(id: $id) {
+      success
+    }
+  }
+`;
+
+export const FILE_UPLOAD = gql`
+  mutation FileUpload($contentType: String!, $filename: String!, $size: Int!) {
+    fileUpload(contentType: $contentType, filename: $filename, size: $size) {
+      success
+      uploadFile {
+        uploadUrl
+        assetUrl
+        headers {
+          key
+          value
+        }
+      }
+    }
+  }
+`;
+
 export const CREATE_ISSUE_LABELS = gql`
   mutation CreateIssueLabels($labels: [IssueLabelCreateInput!]!) {
     issueLabelCreate(input: $labels) {
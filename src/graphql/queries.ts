@@ -54,12 +54,8 @@ export const SEARCH_ISSUES_QUERY = gql`
 `;
 
 export const GET_ISSUES_BY_IDENTIFIER = gql`
-  query GetIssuesByIdentifier($numbers: [Float!]!) {
-    issues(
-      filter: { number: { in: $numbers } }
-      first: 100
-      orderBy: updatedAt
-    ) {
+  query GetIssuesByIdentifier($filter: IssueFilter!, $first: Int) {
+    issues(filter: $filter, first: $first, orderBy: updatedAt) {
       pageInfo {
         hasNextPage
         endCursor
@@ -123,9 +119,281 @@ export const GET_ISSUES_BY_IDENTIFIER = gql`
   }
 `;
 
+/**
+ * Fields of an issue history entry, as read by toTimeline (IssueHistoryEntry).
+ */
+const ISSUE_HISTORY_FIELDS = gql`
+  fragment IssueHistoryFields on IssueHistory {
+    id
+    createdAt
+    actor {
+      id
+      name
+    }
+    fromState {
+      name
+    }
+    toState {
+      name
+    }
+    fromAssignee {
+      name
+    }
+    toAssignee {
+      name
+    }
+    fromPriority
+    toPriority
+    fromTitle
+    toTitle
+    addedLabels {
+      name
+    }
+    removedLabels {
+      name
+    }
+    fromProject {
+      name
+    }
+    toProject {
+      name
+    }
+    fromCycle {
+      number
+      name
+    }
+    toCycle {
+      number
+      name
+    }
+    fromParent {
+      identifier
+    }
+    toParent {
+      identifier
+    }
+    fromEstimate
+    toEstimate
+    fromDueDate
+    toDueDate
+    updatedDescription
+    archived
+  }
+`;
+
+export const GET_ISSUE_DETAIL_QUERY = gql`
+  query GetIssueDetail($id: String!, $commentsFirst: Int) {
+    issue(id: $id) {
+      id
+      identifier
+      title
+      description
+      url
+      priority
+      priorityLabel
+      estimate
+      dueDate
+      createdAt
+      updatedAt
+      startedAt
+      completedAt
+      canceledAt
+      archivedAt
+      state {
+        id
+        name
+        type
+        color
+      }
+      team {
+        id
+        name
+        key
+      }
+      assignee {
+        id
+        name
+        email
+      }
+      creator {
+        id
+        name
+        email
+      }
+      project {
+        id
+        name
+      }
+      projectMilestone {
+        id
+        name
+      }
+      cycle {
+        id
+        number
+        name
+        startsAt
+        endsAt
+      }
+      labels {
+        nodes {
+          id
+          name
+          color
+        }
+      }
+      subscribers {
+        nodes {
+          id
+          name
+          email
+        }
+      }
+      parent {
+        id
+        identifier
+        title
+      }
+      children(first: 100) {
+        nodes {
+          id
+          identifier
+          title
+          state {
+            name
+            type
+          }
+        }
+      }
+      attachments(first: 100) {
+        nodes {
+          id
+          title
+          subtitle
+          url
+          sourceType
+          createdAt
+        }
+      }
+      relations(first: 50) {
+        nodes {
+          id
+          type
+          relatedIssue {
+            id
+            identifier
+            title
+            state {
+              name
+              type
+            }
+          }
+        }
+      }
+      inverseRelations(first: 50) {
+        nodes {
+          id
+          type
+          issue {
+            id
+            identifier
+            title
+            state {
+              name
+              type
+            }
+          }
+        }
+      }
+      history(first: 50) {
+        nodes {
+          ...IssueHistoryFields
+        }
+      }
+      comments(first: $commentsFirst) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          id
+          body
+          url
+          createdAt
+          updatedAt
+          editedAt
+          resolvedAt
+          user {
+            id
+            name
+            email
+          }
+          parent {
+            id
+          }
+        }
+      }
+    }
+  }
+  ${ISSUE_HISTORY_FIELDS}
+`;
+
+export const GET_ISSUE_COMMENTS_QUERY = gql`
+  query GetIssueComments($id: String!, $first: Int, $after: String) {
+    issue(id: $id) {
+      comments(first: $first, after: $after) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          id
+          body
+          url
+          createdAt
+          updatedAt
+          editedAt
+          resolvedAt
+          user {
+            id
+            name
+            email
+          }
+          parent {
+            id
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const GET_ISSUE_HISTORY_QUERY = gql`
+  query GetIssueHistory($id: String!, $first: Int, $after: String) {
+    issue(id: $id) {
+      id
+      identifier
+      history(first: $first, after: $after) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          ...IssueHistoryFields
+        }
+      }
+    }
+  }
+  ${ISSUE_HISTORY_FIELDS}
+`;
+
 export const GET_TEAMS_QUERY = gql`
-  query GetTeams {
-    teams {
+  query GetTeams($first: Int!, $after: String) {
+    teams(first: $first, after: $after) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
       nodes {
         id
         name
@@ -168,6 +436,146 @@ export const GET_USER_QUERY = gql`
   }
 `;
 
+export const GET_USERS_QUERY = gql`
+  query GetUsers($first: Int!, $after: String) {
+    users(first: $first, after: $after) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      nodes {
+        id
+        name
+        displayName
+        email
+        active
+      }
+    }
+  }
+`;
+
+export const GET_LABELS_QUERY = gql`
+  query GetLabels($first: Int!, $after: String) {
+    issueLabels(first: $first, after: $after) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      nodes {
+        id
+        name
+        team {
+          id
+        }
+      }
+    }
+  }
+`;
+
+export const GET_ISSUE_REFERENCES_QUERY = gql`
+  query GetIssueReferences($filter: IssueFilter!) {
+    issues(filter: $filter, first: 250) {
+      nodes {
+        id
+        identifier
+        team {
+          id
+        }
+      }
+    }
+  }
+`;
+
+export const GET_ISSUE_RELATIONS_QUERY = gql`
+  query GetIssueRelations($ids: [ID!]) {
+    issues(filter: { id: { in: $ids } }, first: 50) {
+      nodes {
+        id
+        identifier
+        title
+        state {
+          name
+          type
+        }
+        relations(first: 50) {
+          nodes {
+            id
+            type
+            relatedIssue {
+              id
+              identifier
+              title
+              state {
+                name
+                type
+              }
+            }
+          }
+        }
+        inverseRelations(first: 50) {
+          nodes {
+            id
+            type
+            issue {
+              id
+              identifier
+              title
+              state {
+                name
+                type
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const GET_ISSUE_ATTACHMENTS_QUERY = gql`
+  query GetIssueAttachments($id: String!) {
+    issue(id: $id) {
+      id
+      identifier
+      attachments(first: 100) {
+        nodes {
+          id
+          title
+          subtitle
+          url
+          sourceType
+          metadata
+          createdAt
+          updatedAt
+          creator {
+            id
+            name
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const GET_ATTACHMENT_QUERY = gql`
+  query GetAttachment($id: String!) {
+    attachment(id: $id) {
+      id
+      title
+      subtitle
+      url
+      sourceType
+      metadata
+      createdAt
+      updatedAt
+      creator {
+        id
+        name
+      }
+    }
+  }
+`;
+
 export const SEARCH_PROJECTS_QUERY = gql`
   query SearchProjects($filter: ProjectFilter) {
     projects(filter: $filter) {
@@ -0,0 +1,238 @@
+import {
+  LinearApiError,
+  ResponseHeaders,
+  getErrorHeaders,
+  getHeader,
+  parseLinearApiError,
+} from "../core/errors/linear.errors.js";
+
+/**
+ * One of Linear's rate limit budgets, as reported by the
+ * `X-RateLimit-{Requests,Complexity}-*` response headers.
+ */
+export interface RateLimitBudget {
+  limit: number;
+  remaining: number;
+  /** When the budget is fully replenished */
+  resetAt: Date;
+}
+
+export interface RateLimitStatus {
+  /** Number of requests */
+  requests?: RateLimitBudget;
+  /** Summed query complexity points */
+  complexity?: RateLimitBudget;
+  /** Complexity of the last query, from the `X-Complexity` header */
+  lastQueryComplexity?: number;
+  /** Requests currently held back until the budget recovers */
+  queuedRequests: number;
+  /** Requests retried after a transient failure or rate limit */
+  retriedRequests: number;
+}
+
+/**
+ * Kind of GraphQL operation a request sends.
+ */
+export type OperationType = "query" | "mutation";
+
+export interface RateLimitOptions {
+  /** Retries after a transient failure or rate limit (default: 3) */
+  maxRetries?: number;
+  /** Delay before the first retry, doubled for each further retry (default: 500ms) */
+  baseDelayMs?: number;
+  /**
+   * Longest delay before a retry (default: 30s). Rate limits that reset
+   * later fail right away instead of blocking the tool call.
+   */
+  maxDelayMs?: number;
+  /** Hold requests back once fewer requests remain (default: 5) */
+  minRemainingRequests?: number;
+  /**
+   * Hold requests back once fewer complexity points remain (default: 10,000,
+   * the most a single query may cost)
+   */
+  minRemainingComplexity?: number;
+  /** Longest time a request is held back waiting for the budget (default: 60s) */
+  maxQueueDelayMs?: number;
+  /** Used to wait between attempts; replaceable in tests */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * What the middleware needs from a GraphQL response.
+ */
+export interface RawResponse<T> {
+  data?: T;
+  headers?: ResponseHeaders;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<RateLimitOptions, "sleep">> = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  minRemainingRequests: 5,
+  minRemainingComplexity: 10_000,
+  maxQueueDelayMs: 60_000,
+};
+
+/**
+ * Error codes of network failures worth retrying.
+ */
+const TRANSIENT_NETWORK_ERRORS = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+];
+
+const wait = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Error codes of network failures that happen before the request reaches
+ * Linear, so even a mutation is known not to have been applied.
+ */
+const UNSENT_REQUEST_ERRORS = ["ECONNREFUSED"];
+
+const hasErrorCode = (error: unknown, codes: string[]): boolean => {
+  const { code, cause } = (error ?? {}) as { code?: string; cause?: unknown };
+  if (code && codes.includes(code)) return true;
+  // fetch reports network failures as TypeError("fetch failed") with the cause attached
+  return cause !== undefined && cause !== error && hasErrorCode(cause, codes);
+};
+
+/**
+ * Keeps requests within Linear's rate limits: reads the budgets from the
+ * rate limit headers of every response, holds requests back while a budget is
+ * nearly exhausted and retries rate limited requests and transient failures
+ * with jittered exponential backoff. Mutations may already have been applied
+ * when a request fails midway, so they are only retried when rate limited or
+ * when the request never reached Linear.
+ */
+export class RateLimitMiddleware {
+  private readonly options: Required<Omit<RateLimitOptions, "sleep">>;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private requests?: RateLimitBudget;
+  private complexity?: RateLimitBudget;
+  private lastQueryComplexity?: number;
+  private queuedRequests = 0;
+  private retriedRequests = 0;
+
+  constructor(options: RateLimitOptions = {}) {
+    const { sleep, ...rest } = options;
+    this.options = { ...DEFAULT_OPTIONS, ...rest };
+    this.sleep = sleep ?? wait;
+  }
+
+  /**
+   * Sends a request, retrying it when worthwhile.
+   * @param operation Kind of operation the request sends
+   * @throws {LinearApiError} Once the request failed for good
+   */
+  async run<T>(
+    request: () => Promise<RawResponse<T>>,
+    operation: OperationType = "query"
+  ): Promise<RawResponse<T>> {
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForBudget();
+      try {
+        const response = await request();
+        this.update(response.headers);
+        return response;
+      } catch (error) {
+        this.update(getErrorHeaders(error));
+        const apiError = parseLinearApiError(error);
+        const delay = this.getRetryDelay(apiError, error, operation, attempt);
+        if (delay === undefined) {
+          throw apiError;
+        }
+        this.retriedRequests++;
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  getStatus(): RateLimitStatus {
+    return {
+      requests: this.requests,
+      complexity: this.complexity,
+      lastQueryComplexity: this.lastQueryComplexity,
+      queuedRequests: this.queuedRequests,
+      retriedRequests: this.retriedRequests,
+    };
+  }
+
+  /**
+   * Delay before retrying a failed request, or undefined if it shouldn't be
+   * retried.
+   */
+  private getRetryDelay(
+    apiError: LinearApiError,
+    error: unknown,
+    operation: OperationType,
+    attempt: number
+  ): number | undefined {
+    if (attempt >= this.options.maxRetries) return undefined;
+
+    const status = apiError.details.status ?? 0;
+    const retryable =
+      operation === "mutation"
+        ? hasErrorCode(error, UNSENT_REQUEST_ERRORS)
+        : status >= 500 || status === 408 || hasErrorCode(error, TRANSIENT_NETWORK_ERRORS);
+    if (apiError.kind !== "rate_limited" && !retryable) return undefined;
+
+    const retryAfter = apiError.details.retryAfterMs ?? 0;
+    if (retryAfter > this.options.maxDelayMs) return undefined;
+
+    // Equal jitter: half the exponential delay, plus up to the other half at random
+    const backoff = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return Math.max(retryAfter, backoff / 2 + Math.random() * (backoff / 2));
+  }
+
+  /**
+   * Waits until the budgets recover if either of them is nearly exhausted.
+   */
+  private async waitForBudget(): Promise<void> {
+    const now = Date.now();
+    const delays = [
+      [this.requests, this.options.minRemainingRequests] as const,
+      [this.complexity, this.options.minRemainingComplexity] as const,
+    ]
+      .filter(([budget, minimum]) => budget && budget.remaining < minimum)
+      .map(([budget]) => budget!.resetAt.getTime() - now);
+    const delay = Math.min(Math.max(0, ...delays), this.options.maxQueueDelayMs);
+    if (delay <= 0) return;
+
+    this.queuedRequests++;
+    try {
+      await this.sleep(delay);
+    } finally {
+      this.queuedRequests--;
+    }
+  }
+
+  private update(headers: ResponseHeaders | undefined): void {
+    this.requests = this.readBudget(headers, "requests") ?? this.requests;
+    this.complexity = this.readBudget(headers, "complexity") ?? this.complexity;
+
+    const complexity = getHeader(headers, "x-complexity");
+    if (complexity !== undefined) {
+      this.lastQueryComplexity = Number(complexity);
+    }
+  }
+
+  private readBudget(
+    headers: ResponseHeaders | undefined,
+    budget: "requests" | "complexity"
+  ): RateLimitBudget | undefined {
+    const [limit, remaining, reset] = ["limit", "remaining", "reset"].map((name) =>
+      Number(getHeader(headers, `x-ratelimit-${budget}-${name}`) ?? NaN)
+    );
+    if ([limit, remaining, reset].some(Number.isNaN)) return undefined;
+
+    return { limit, remaining, resetAt: new Date(reset) };
+  }
+}
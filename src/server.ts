@@ -0,0 +1,152 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  ListToolsRequestSchema,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import { ServerConfig } from './core/config/server.config.js';
+import { HttpTransportServer } from './core/transport/http.transport.js';
+import {
+  SessionContext,
+  SessionManager,
+} from './core/session/session.manager.js';
+import { createTokenStore } from './core/auth/token.store.js';
+import { createCacheFactory } from './core/cache/cache.store.js';
+import { LinearSession } from './core/session/linear.session.js';
+import { ToolPolicy } from './core/tools/tool.policy.js';
+import { toolRegistry, toolSchemas } from './core/types/tool.types.js';
+import { validateToolArguments } from './core/tools/schema.validator.js';
+
+const STDIO_SESSION_ID = 'stdio';
+
+/**
+ * Token store entry of the stdio session. Servers for different workspaces
+ * (see TOOL_PREFIX) keep separate credentials.
+ */
+const STDIO_STORE_KEY = process.env.TOOL_PREFIX || 'default';
+
+/**
+ * Main server class that handles MCP protocol interactions.
+ * Delegates tool operations to domain-specific handlers, resolved from the
+ * Linear session of the calling client.
+ */
+export class LinearServer {
+  private sessions: SessionManager;
+  private toolPolicy: ToolPolicy;
+  private stdioServer?: Server;
+  private httpServer?: HttpTransportServer;
+
+  constructor(private readonly config: ServerConfig) {
+    // Fail fast if a tool points at a handler method that doesn't exist
+    toolRegistry.validate();
+
+    this.toolPolicy = new ToolPolicy({
+      readOnly: config.readOnly,
+      include: config.tools.include,
+      exclude: config.tools.exclude,
+    });
+    // The stdio session falls back to the PAT, if available. HTTP sessions
+    // never do: any client reaching the server would act as its owner.
+    this.sessions = new SessionManager({
+      defaultAccessToken:
+        config.transport === 'stdio' ? process.env.LINEAR_ACCESS_TOKEN : undefined,
+      tokenStore: createTokenStore(),
+      toolPolicy: this.toolPolicy,
+      createCache: createCacheFactory(),
+    });
+  }
+
+  /**
+   * Creates an MCP server instance wired to the tool handlers of the session
+   * identified by `context`. A new instance is created for every HTTP session.
+   */
+  createMcpServer(
+    context: SessionContext = {
+      sessionId: STDIO_SESSION_ID,
+      storeKey: STDIO_STORE_KEY,
+    }
+  ): Server {
+    const server = new Server(
+      {
+        name: 'linear-server',
+        version: '0.1.0',
+      },
+      {
+        capabilities: {
+          tools: {},
+        },
+      }
+    );
+
+    const { key, session } = this.sessions.acquire(context);
+    this.setupRequestHandlers(server, session);
+
+    // Error handling
+    server.onerror = (error) => console.error('[MCP Error]', error);
+    server.onclose = () => this.sessions.release(key);
+
+    return server;
+  }
+
+  private setupRequestHandlers(server: Server, session: LinearSession) {
+    // List available tools
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: this.toolPolicy.listTools(),
+    }));
+
+    // Handle tool calls
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      try {
+        await session.ready;
+        const { handler, method } = session.handlerFactory.getHandlerForTool(request.params.name);
+        validateToolArguments(
+          request.params.name,
+          toolSchemas[request.params.name].inputSchema,
+          request.params.arguments
+        );
+        // Use type assertion to handle dynamic method access
+        return await (handler as any)[method](request.params.arguments);
+      } catch (error) {
+        if (error instanceof Error && error.message.startsWith('No handler found')) {
+          throw new McpError(
+            ErrorCode.MethodNotFound,
+            `Unknown tool: ${request.params.name}`
+          );
+        }
+        throw error;
+      }
+    });
+  }
+
+  async run() {
+    if (this.config.transport === 'http') {
+      this.httpServer = new HttpTransportServer(this.config.http, (context) =>
+        this.createMcpServer(context)
+      );
+      const address = await this.httpServer.listen();
+      console.error(
+        `Linear MCP server running on http://${address.address}:${address.port}${this.config.http.path}`
+      );
+      return;
+    }
+
+    this.stdioServer = this.createMcpServer();
+    const transport = new StdioServerTransport();
+    await this.stdioServer.connect(transport);
+    console.error('Linear MCP server running on stdio');
+  }
+
+  /**
+   * Number of distinct Linear sessions currently in use.
+   */
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  async close() {
+    await this.httpServer?.close();
+    await this.stdioServer?.close();
+  }
+}